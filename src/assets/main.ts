@@ -1,11 +1,15 @@
 import {
+  isDryRunCapture,
   isRedisStreamItemLog,
+  isRedisStreamItemNotice,
   recompose,
 } from '../types'
 
 import type {
+  DryRunCapture,
   Log,
   LogOrSpeechWithTimestamp,
+  Notice,
   RedisStreamItem,
   Speech,
 } from '../types'
@@ -17,12 +21,25 @@ class Client {
   readonly #removeChild: <T extends Node>(_child: T) => T
   #webSocket: WebSocket
 
-  #prepend(value: LogOrSpeechWithTimestamp): void {
+  #prepend(value: DryRunCapture | LogOrSpeechWithTimestamp): void {
+    if (isDryRunCapture(value))
+      return this.#prependCapture(value)
     const { item, timestamp } = value
     const li = this.#document.getElementById(`${timestamp}`)
-    isRedisStreamItemLog(item)
-      ? this.#prependLog(item, li, timestamp)
-      : this.#prependSpeech(item, li, timestamp)
+    if (isRedisStreamItemLog(item))
+      this.#prependLog(item, li, timestamp)
+    else if (isRedisStreamItemNotice(item))
+      this.#prependNotice(item, li, timestamp)
+    else
+      this.#prependSpeech(item, li, timestamp)
+  }
+
+  #prependCapture(capture: DryRunCapture): void {
+    const { payload, timestamp } = capture
+    const text = payload.kind === 'say' ? payload.text : payload.content
+    const li = createListItemNode(this.#document, `[dry-run] ${text}`, timestamp)
+    li.classList.add('captured')
+    this.#messages.prepend(li)
   }
 
   #prependLog(item: RedisStreamItem<Log>, li: HTMLElement, timestamp: number): void {
@@ -36,6 +53,15 @@ class Client {
     }
   }
 
+  #prependNotice(item: RedisStreamItem<Notice>, li: HTMLElement, timestamp: number): void {
+    if (!li) {
+      const li = createListItemNode(this.#document, item.message.body, timestamp)
+      li.classList.add('notice', item.message.kind)
+      this.#messages.prepend(li)
+      this.#loading.splice(0).forEach(this.#removeChild)
+    }
+  }
+
   #prependSpeech(item: RedisStreamItem<Speech>, li: HTMLElement, timestamp: number): void {
     if (li) {
       removeAllChildren(li)
@@ -72,7 +98,7 @@ class Client {
     this.#webSocket.addEventListener(
       'message',
       async (msg: MessageEvent<WebSocketMessage>) => {
-        const data = JSON.parse(await msg.data.text()) as LogOrSpeechWithTimestamp | LogOrSpeechWithTimestamp[]
+        const data = JSON.parse(await msg.data.text()) as DryRunCapture | LogOrSpeechWithTimestamp | LogOrSpeechWithTimestamp[]
         data instanceof Array
           ? data.slice(0, 100).reverse().map(this.#prepend.bind(this))
           : this.#prepend(data)
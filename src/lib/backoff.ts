@@ -0,0 +1,58 @@
+import {
+  parseFloatOr,
+  parseIntOr,
+} from '..'
+
+export interface BackoffOptions {
+  initialDelay: number
+  jitter: number
+  maxAttempts?: number
+  maxDelay: number
+  multiplier: number
+}
+
+export class ExponentialBackoff {
+  /**
+   * Creates an instance configured by `${prefix}_INITIAL_DELAY`, `${prefix}_MAX_DELAY`, `${prefix}_MULTIPLIER`,
+   * `${prefix}_JITTER` and `${prefix}_MAX_ATTEMPTS` environment variables.
+   */
+  static fromEnvironment(prefix: string, defaults: BackoffOptions): ExponentialBackoff {
+    const { env } = process
+    return new ExponentialBackoff(
+      {
+        initialDelay: parseIntOr(env[`${prefix}_INITIAL_DELAY`], defaults.initialDelay),
+        jitter: parseFloatOr(env[`${prefix}_JITTER`], defaults.jitter),
+        maxAttempts: parseIntOr(env[`${prefix}_MAX_ATTEMPTS`], defaults.maxAttempts),
+        maxDelay: parseIntOr(env[`${prefix}_MAX_DELAY`], defaults.maxDelay),
+        multiplier: parseFloatOr(env[`${prefix}_MULTIPLIER`], defaults.multiplier),
+      }
+    )
+  }
+
+  #attempts = 0
+  readonly #options: BackoffOptions
+
+  constructor(options: BackoffOptions) {
+    this.#options = options
+  }
+
+  get attempts(): number {
+    return this.#attempts
+  }
+
+  /**
+   * Returns the delay in milliseconds before the next attempt, or `undefined` if no more attempts are allowed.
+   * The delay grows exponentially up to `maxDelay`, and is reduced randomly by up to `jitter` of itself.
+   */
+  next(): number | undefined {
+    const { initialDelay, jitter, maxAttempts, maxDelay, multiplier } = this.#options
+    if (!(maxAttempts <= this.#attempts)) {
+      const delay = Math.min(initialDelay * multiplier ** this.#attempts++, maxDelay)
+      return Math.round(delay * (1 - jitter * Math.random()))
+    }
+  }
+
+  reset(): void {
+    this.#attempts = 0
+  }
+}
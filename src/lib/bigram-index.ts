@@ -0,0 +1,81 @@
+import type {
+  FilterFunction,
+} from '..'
+
+/**
+ * An in-memory full-text index which finds the values whose text contains the query as a substring.
+ * Texts are split into overlapping pairs of characters (bigrams), so that Japanese texts,
+ * which have no spaces between words, can be searched as well as English ones.
+ * Both texts and queries are normalised by NFKC and lower-cased, e.g. `ｶﾀｶﾅ` matches `カタカナ`.
+ */
+export class BigramIndex<T> {
+  readonly #postings = new Map<string, Set<string>>()
+  readonly #texts = new Map<string, string>()
+  readonly #values = new Map<string, T>()
+
+  #candidates(query: string): Iterable<string> {
+    const postings = [...new Set(bigramsOf(query))].map((bigram: string) => this.#postings.get(bigram) ?? new Set<string>())
+    const [smallest, ...rest] = postings.sort((lhs: Set<string>, rhs: Set<string>) => lhs.size - rhs.size)
+    return [...smallest].filter((id: string) => rest.every((posting: Set<string>) => posting.has(id)))
+  }
+
+  #remove(id: string): void {
+    for (const bigram of new Set(bigramsOf(this.#texts.get(id)))) {
+      const posting = this.#postings.get(bigram)
+      posting.delete(id)
+      if (posting.size === 0)
+        this.#postings.delete(bigram)
+    }
+    this.#texts.delete(id)
+    this.#values.delete(id)
+  }
+
+  get size(): number {
+    return this.#values.size
+  }
+
+  /**
+   * Indexes the text of a value, unless a value with the same `id` has already been indexed.
+   */
+  add(id: string, text: string, value: T): void {
+    if (!this.#values.has(id)) {
+      const normalized = normalize(text)
+      this.#texts.set(id, normalized)
+      this.#values.set(id, value)
+      for (const bigram of bigramsOf(normalized))
+        this.#postings.set(bigram, (this.#postings.get(bigram) ?? new Set<string>()).add(id))
+    }
+  }
+
+  has(id: string): boolean {
+    return this.#values.has(id)
+  }
+
+  /**
+   * Removes the values which satisfy `predicate` from the index, and returns the number of them.
+   */
+  prune(predicate: FilterFunction<T>): number {
+    const ids = [...this.#values].filter((entry: [string, T]) => predicate(entry[1])).map((entry: [string, T]) => entry[0])
+    ids.forEach(this.#remove.bind(this))
+    return ids.length
+  }
+
+  /**
+   * Returns the values whose text contains `query`, in the order they were added.
+   */
+  search(query: string): T[] {
+    const normalized = normalize(query)
+    const ids = normalized.length < 2 ? this.#texts.keys() : this.#candidates(normalized)
+    return [...ids]
+      .filter((id: string) => this.#texts.get(id).includes(normalized))
+      .map((id: string) => this.#values.get(id))
+  }
+}
+
+function* bigramsOf(text: string) {
+  const characters = [...text]
+  for (let i = 0; i < characters.length - 1; i++)
+    yield characters[i] + characters[i + 1]
+}
+
+const normalize = (text: string) => text.normalize('NFKC').toLowerCase()
@@ -0,0 +1,25 @@
+export namespace CSV {
+  /**
+   * Formats rows as RFC 4180 CSV, i.e. quotes the fields which contain commas, double quotes or line breaks.
+   */
+  export const format = (rows: string[][]): string => rows.map(formatRow).join('')
+
+  export const parse = (text: string): string[][] => {
+    const re = new RegExp(fieldRE)
+    const row = [] as string[]
+    const rows = [] as string[][]
+    while (re.lastIndex < text.length) {
+      const { delimiter, plain, quoted } = re.exec(text).groups
+      row.push(quoted === undefined ? plain : quoted.replaceAll('""', '"'))
+      if (delimiter !== ',')
+        rows.push(row.splice(0))
+    }
+    return row.length ? [...rows, [...row, '']] : rows
+  }
+}
+
+const fieldRE = /(?:"(?<quoted>(?:[^"]|"")*)"|(?<plain>[^,\r\n]*))(?<delimiter>,|\r?\n|\r|$)/y
+
+const formatField = (field: string): string => /[\n\r",]/.test(field) ? `"${field.replaceAll('"', '""')}"` : field
+
+const formatRow = (fields: string[]): string => fields.map(formatField).join(',') + '\r\n'
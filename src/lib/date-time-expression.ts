@@ -0,0 +1,227 @@
+import {
+  formatDateTimeToFullyQualifiedString,
+} from '..'
+
+type Interpreter = (_text: string, _now: Date) => Date | undefined
+
+const absolutePattern = String.raw`\d+(([-/]\d+){1,2}(\s\d+(:\d+){1,2})?)?`
+
+const beginningOfDay = (date: Date, days: number) => new Date(date.getFullYear(), date.getMonth(), date.getDate() + days)
+
+const beginningOfWeek = (date: Date, weeks: number) => beginningOfDay(date, 7 * weeks - date.getDay())
+
+const componentsOf = (date: Date) => [
+  date.getFullYear(),
+  date.getMonth(),
+  date.getDate(),
+  date.getHours(),
+  date.getMinutes(),
+  date.getSeconds(),
+]
+
+const convertDateComponents = (dateComponents: number[] | undefined): Date | undefined => {
+  if (dateComponents) {
+    const { length } = dateComponents
+    const year = [new Date().getFullYear(), dateComponents[0]][length - 2]
+    const month = [dateComponents[0], dateComponents[1]][length - 2]
+    const day = [dateComponents[1], dateComponents[2]][length - 2]
+    return new Date(year, month - 1, day)
+  }
+}
+
+const convertDateTimeComponents = (dateComponents: number[] | undefined, components: string[] | undefined): Date | undefined => {
+  const date = convertDateComponents(dateComponents)
+  const timeComponents = components?.[1].split(/[-:]/).map(parseStringAsDecimalInteger)
+  if (date && timeComponents) {
+    const { length } = timeComponents
+    const second = [0, timeComponents[2]][+(length === 3)]
+    return new Date(
+      date.getFullYear(),
+      date.getMonth(),
+      date.getDate(),
+      timeComponents[0],
+      timeComponents[1],
+      second
+    )
+  }
+}
+
+const convertFromUnixEpochTime = (value: number): Date | undefined => {
+  if (!isNaN(value))
+    return new Date(value)
+}
+
+const dateOf = (components: number[]) => new Date(components[0], components[1], components[2], components[3], components[4], components[5])
+
+const decomposeDateString = (text: string | undefined) => {
+  const components = text?.split(' ')
+  const dateComponents = components?.[0].split(/[-/]/).map(parseStringAsDecimalInteger)
+  return {
+    components,
+    dateComponents,
+  }
+}
+
+const elapsedTimeRE = /^(?<amount>\d+)(?<unit>秒|分|時間|日|週間?|[かヶカケ]月|年)前$/
+
+/**
+ * The index in `componentsOf` and the multiplier of each unit of elapsed times.
+ */
+const elapsedTimeUnits = {
+  年: [0, 1],
+  月: [1, 1],
+  週: [2, 7],
+  週間: [2, 7],
+  日: [2, 1],
+  時間: [3, 1],
+  分: [4, 1],
+  秒: [5, 1],
+} as Record<string, [number, number]>
+
+const eraPattern = String.raw`(明治|大正|昭和|平成|令和)(\d+|元)年\d+月\d+日(\s?\d+(:\d+){1,2})?`
+
+const eraRE = /^(?<era>明治|大正|昭和|平成|令和)(?<year>\d+|元)年(?<month>\d+)月(?<day>\d+)日(\s?(?<time>\d+(:\d+){1,2}))?$/
+
+const eras = {
+  明治: 1868,
+  大正: 1912,
+  昭和: 1926,
+  平成: 1989,
+  令和: 2019,
+} as Record<string, number>
+
+export const formatDateTimeRange = (from: number | '-', to: number | '+') => {
+  const [since, until] = [from, to].map((value: number | '-' | '+') => new Date(value)).map(formatDateTimeToFullyQualifiedString)
+  const value = +(since === undefined) * 2 + +(until === undefined)
+  if (value < 3)
+    return `${qualifyNullishStringWithSuffix(since, 'から')}${qualifyNullishStringWithSuffix(until, 'まで')}`
+}
+
+const hasSingleElement = <T>(array: T[] | undefined) => array?.length === 1
+
+const hourOf = (date: Date, hour: number) => new Date(date.getFullYear(), date.getMonth(), date.getDate(), hour)
+
+const interpretAsAbsoluteDate = (text: string) => {
+  const { components, dateComponents } = decomposeDateString(text)
+  return hasSingleElement(components)
+    ? (
+      hasSingleElement(dateComponents)
+        ? convertFromUnixEpochTime(dateComponents[0])
+        : convertDateComponents(dateComponents)
+    )
+    : convertDateTimeComponents(dateComponents, components)
+}
+
+const interpretAsDate = (text: string | undefined) => {
+  const now = new Date()
+  if (text !== undefined)
+    for (const interpret of interpreters) {
+      const date = interpret(text, now)
+      if (date)
+        return date
+    }
+}
+
+/**
+ * Interprets a string as a datetime, and returns its elapsed time in milliseconds since Jan 01, 1970, 00:00:00.
+ * Besides `YYYY/MM/dd HH:mm:ss`-style strings and the elapsed time itself,
+ * the following expressions relative to the current time are accepted, e.g.
+ * - elapsed times such as `30分前` and `2時間前`
+ * - named days such as `昨日`, `今朝` and `先週`, each of which means the beginning of it
+ * - weekdays such as `月曜` and `先週の金曜日`, where a weekday alone means the latest one including today
+ * - Japanese-era dates such as `令和6年1月1日` and `平成元年1月8日 12:00`
+ *
+ * @param {string | undefined} text
+ *
+ * @param {T} alternateValue
+ *
+ * @returns {T | number} The elapsed time in milliseconds since Jan 01, 1970, 00:00:00 if the format of `text` is valid. Otherwise, `alternateValue`
+ */
+export const interpretAsDateOr = <T>(text: string | undefined, alternateValue: T): T | number => interpretAsDate(text)?.getTime() ?? alternateValue
+
+const interpretAsElapsedTime = (text: string, now: Date) => {
+  const groups = text.match(elapsedTimeRE)?.groups
+  if (groups) {
+    const [index, multiplier] = elapsedTimeUnits[groups.unit.replace(/^[かヶカケ]/, '')]
+    const components = componentsOf(now)
+    components[index] -= parseInt(groups.amount) * multiplier
+    return dateOf(components)
+  }
+}
+
+const interpretAsEraDate = (text: string) => {
+  const groups = text.match(eraRE)?.groups
+  if (groups) {
+    const { day, era, month, time, year } = groups
+    const [hours, minutes, seconds] = timeComponentsOf(time)
+    return new Date(eras[era] + (parseInt(year) || 1) - 1, parseInt(month) - 1, parseInt(day), hours, minutes, seconds)
+  }
+}
+
+const interpretAsNamedDay = (text: string, now: Date) => namedDays.get(text)?.(now)
+
+const interpretAsWeekday = (text: string, now: Date) => {
+  const groups = text.match(weekdayRE)?.groups
+  if (groups) {
+    const day = weekdays.indexOf(groups.weekday)
+    return groups.week
+      ? beginningOfDay(beginningOfWeek(now, weeks[groups.week]), day)
+      : beginningOfDay(now, -((now.getDay() - day + 7) % 7))
+  }
+}
+
+/**
+ * The interpreters in order of precedence, i.e. the absolute one comes last since it takes `30分前` for 30 ms.
+ */
+const interpreters: Readonly<Interpreter[]> = [
+  interpretAsEraDate,
+  interpretAsElapsedTime,
+  interpretAsNamedDay,
+  interpretAsWeekday,
+  interpretAsAbsoluteDate,
+] as const
+
+const namedDays = new Map<string, (_now: Date) => Date>(
+  [
+    ['おととい', (now: Date) => beginningOfDay(now, -2)],
+    ['一昨日', (now: Date) => beginningOfDay(now, -2)],
+    ['今夜', (now: Date) => hourOf(now, 18)],
+    ['今年', (now: Date) => new Date(now.getFullYear(), 0)],
+    ['今日', (now: Date) => beginningOfDay(now, 0)],
+    ['今晩', (now: Date) => hourOf(now, 18)],
+    ['今月', (now: Date) => new Date(now.getFullYear(), now.getMonth())],
+    ['今朝', (now: Date) => hourOf(now, 5)],
+    ['今週', (now: Date) => beginningOfWeek(now, 0)],
+    ['先月', (now: Date) => new Date(now.getFullYear(), now.getMonth() - 1)],
+    ['先週', (now: Date) => beginningOfWeek(now, -1)],
+    ['去年', (now: Date) => new Date(now.getFullYear() - 1, 0)],
+    ['昨年', (now: Date) => new Date(now.getFullYear() - 1, 0)],
+    ['昨日', (now: Date) => beginningOfDay(now, -1)],
+  ]
+)
+
+const parseStringAsDecimalInteger = (value: string) => parseInt(value)
+
+const qualifyNullishStringWithSuffix = (text: string | undefined, suffix: string) => text?.concat(suffix) ?? ''
+
+const relativePattern = String.raw`\d+(秒|分|時間|日|週間?|[かヶカケ]月|年)前|${[...namedDays.keys()].join('|')}|((今週|先週)の?)?[日月火水木金土]曜日?`
+
+const timeComponentsOf = (time: string | undefined) => {
+  const components = time?.split(':').map(parseStringAsDecimalInteger) ?? []
+  return [0, 0, 0].map((zero: number, index: number) => components[index] ?? zero)
+}
+
+const weekdayRE = /^((?<week>今週|先週)の?)?(?<weekday>[日月火水木金土])曜日?$/
+
+const weekdays = '日月火水木金土'
+
+const weeks = {
+  今週: 0,
+  先週: -1,
+} as Record<string, number>
+
+/**
+ * The pattern of the datetimes which `interpretAsDateOr` accepts, to be embedded in the regular expressions of commands.
+ * It is defined last as it is composed of the patterns above.
+ */
+export const dateTimePattern = String.raw`(${eraPattern}|${relativePattern}|${absolutePattern})`
@@ -0,0 +1,63 @@
+import type {
+  Action,
+  DryRunCapture,
+  DryRunSinkKind,
+  OutboxPayload,
+} from '..'
+
+import {
+  dryRunSinkKinds,
+} from '..'
+
+import {
+  WriteStream,
+  createWriteStream,
+} from 'fs'
+
+/**
+ * Captures what would have been posted, instead of sending it to the chat.
+ * It is enabled by `DRY_RUN`, a comma-separated list of `console`, `file` and `web`.
+ */
+export class DryRunSink implements AsyncDisposable {
+  static fromEnvironment(): DryRunSink | undefined {
+    const { DRY_RUN, DRY_RUN_PATH } = process.env
+    const kinds = (DRY_RUN ?? '').split(',').map((kind: string) => kind.trim()).filter(isDryRunSinkKind)
+    if (kinds.length)
+      return new DryRunSink(kinds, DRY_RUN_PATH ?? 'dry-run.jsonl')
+  }
+
+  readonly #kinds: Set<DryRunSinkKind>
+  readonly #stream?: WriteStream
+
+  #print(capture: DryRunCapture): void {
+    const { payload } = capture
+    payload.kind === 'say'
+      ? console.log(`[dry-run] say '\x1b[36m${payload.text}\x1b[m'`)
+      : console.log(`[dry-run] speech\n\x1b[36m${payload.content}\x1b[m`)
+  }
+
+  constructor(kinds: DryRunSinkKind[], path: string) {
+    this.#kinds = new Set(kinds)
+    if (this.#kinds.has('file'))
+      this.#stream = createWriteStream(path, { flags: 'a' })
+    console.log(`[dry-run] \x1b[33mnothing is posted\x1b[m, captured by ${kinds.join(', ')}`)
+  }
+
+  capture(payload: OutboxPayload): DryRunCapture {
+    const capture = { payload, timestamp: Date.now() }
+    if (this.#kinds.has('console'))
+      this.#print(capture)
+    this.#stream?.write(JSON.stringify(capture) + '\n')
+    return capture
+  }
+
+  has(kind: DryRunSinkKind): boolean {
+    return this.#kinds.has(kind)
+  }
+
+  async [Symbol.asyncDispose](): Promise<void> {
+    await new Promise((resolve: Action) => this.#stream ? this.#stream.end(resolve) : resolve())
+  }
+}
+
+const isDryRunSinkKind = (value: string): value is DryRunSinkKind => dryRunSinkKinds.includes(value as DryRunSinkKind)
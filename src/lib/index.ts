@@ -1,8 +1,26 @@
+export * from './backoff'
+export * from './bigram-index'
+export * from './csv'
+export * from './date-time-expression'
 export * from './deepl'
 export * from './di'
+export * from './dry-run-sink'
 export * from './env'
 export * from './ignore'
 export * from './json'
+export * from './koukoku-notice'
+export * from './koukoku-parser'
+export * from './log-exchange'
+export * from './log-pages'
+export * from './log-reader'
+export * from './memory-storage'
+export * from './migrations'
+export * from './migrator'
+export * from './outgoing-text'
 export * from './promise-list'
+export * from './redis-storage'
 export * from './sjis'
+export * from './sqlite-storage'
+export * from './telnet-recording'
 export * from './util'
+export * from './word-counter'
@@ -0,0 +1,41 @@
+import type {
+  Notice,
+  NoticeKind,
+} from '..'
+
+interface NoticeRule {
+  kind: NoticeKind
+  pattern: RegExp
+}
+
+/**
+ * Classifies a fragment which the parser emitted as `unknown` into a typed notice.
+ * Returns `undefined` for the fragments which carry no information, e.g. the echo of the login name.
+ */
+export const parseKoukokuNotice = (text: string): Notice | undefined => {
+  const body = text.trim()
+  if (!ignoredRE.test(body)) {
+    const { kind } = noticeRules.find((rule: NoticeRule) => rule.pattern.test(body))
+    const users = [undefined, body.match(usersRE)?.groups.users][+(kind === 'users')]
+    return users ? { body, kind, users } : { body, kind }
+  }
+}
+
+const ignoredRE = /^(login:\s*)?(nobody)?$/
+
+const noticeRules: Readonly<NoticeRule[]> = [
+  {
+    kind: 'banner',
+    pattern: /login:\s*$|^koukoku\.shadan\.open\.ad\.jp/m,
+  },
+  {
+    kind: 'users',
+    pattern: /(接続|在室|参加)[^\r\n]*\d+\s*(人|名)|\d+\s*(人|名)[^\r\n]*(接続|在室|参加)/,
+  },
+  {
+    kind: 'announcement',
+    pattern: /[\S\s]/,
+  },
+]
+
+const usersRE = /(?<users>\d+)\s*(人|名)/
@@ -0,0 +1,181 @@
+import type {
+  Log,
+  Speech,
+} from '..'
+
+import { EventEmitter } from 'events'
+import { StringDecoder } from 'string_decoder'
+
+type KoukokuParserState = 'idle' | 'message' | 'speech'
+
+interface TimestampMark {
+  offset: number
+  timestamp: number
+}
+
+/**
+ * Consumes the byte stream from the koukoku server incrementally,
+ * and emits `message` and `speech` as soon as each construct completes.
+ * Fragments which belong to neither of them are emitted as `unknown`.
+ */
+export class KoukokuParser {
+  readonly #decoder = new StringDecoder('utf8')
+  readonly #eventEmitter = new EventEmitter()
+  readonly #marks = [] as TimestampMark[]
+  #state: KoukokuParserState = 'idle'
+  #text = ''
+
+  #consume(length: number): string {
+    const text = this.#text.slice(0, length)
+    this.#text = this.#text.slice(length)
+    const marks = this.#marks.splice(0).map(
+      (mark: TimestampMark) => ({ offset: Math.max(mark.offset - length, 0), timestamp: mark.timestamp })
+    )
+    this.#marks.push(...marks.filter(isEffectiveIn(marks)))
+    return text
+  }
+
+  #emitMessage(raw: string, timestamp: number): void {
+    const matched = raw.replaceAll(/\r?\n/g, '').match(messageRE)
+    if (matched) {
+      const { body, date, dow, forgery, host, self, time } = matched.groups
+      const log = { body, date, dow, forgery, host, self, time } as Log
+      if (forgery === undefined)
+        delete log.forgery
+      if (self === undefined)
+        delete log.self
+      this.#eventEmitter.emit('message', log, matched[0], timestamp)
+    }
+    else
+      this.#emitUnknown(raw, timestamp)
+  }
+
+  #emitSpeech(raw: string, timestamp: number, finished: number): void {
+    const matched = raw.match(speechRE)
+    if (matched) {
+      const { body, date, host, time } = matched.groups
+      const speech = { body, date, finished: `${finished}`, host, time }
+      this.#eventEmitter.emit('speech', speech, matched[0], timestamp)
+    }
+    else
+      this.#emitUnknown(raw, timestamp)
+  }
+
+  #emitUnknown(raw: string, timestamp: number): void {
+    const text = raw.replaceAll(/^(\s*\r?\n)+|\s+$/g, '')
+    if (text.length)
+      this.#eventEmitter.emit('unknown', text, timestamp)
+  }
+
+  #interrupt(limit: number, ...markers: string[]): boolean {
+    const found = findFirstMarker(this.#text, 1, markers)
+    const index = found?.index ?? (limit < this.#text.length ? this.#text.length : undefined)
+    if (index !== undefined) {
+      const timestamp = this.#timestampAt(0)
+      this.#emitUnknown(this.#consume(index), timestamp)
+      this.#state = 'idle'
+    }
+    return index !== undefined
+  }
+
+  #step(): boolean {
+    const steps = {
+      idle: this.#stepIdle,
+      message: this.#stepMessage,
+      speech: this.#stepSpeech,
+    } as const
+    return steps[this.#state].call(this)
+  }
+
+  #stepIdle(): boolean {
+    const found = findFirstMarker(this.#text, 0, [messageStart, speechStart])
+    const timestamp = this.#timestampAt(0)
+    if (found) {
+      this.#emitUnknown(this.#consume(found.index), timestamp)
+      this.#state = found.marker === messageStart ? 'message' : 'speech'
+    }
+    else
+      this.#emitUnknown(this.#consume(this.#text.lastIndexOf('\n') + 1), timestamp)
+    return found !== undefined
+  }
+
+  #stepMessage(): boolean {
+    const position = this.#text.indexOf(messageMiddle)
+    const end = position < 0 ? -1 : this.#text.indexOf(messageEnd, position)
+    if (end < 0)
+      return this.#interrupt(messageLimit, messageStart, speechStart)
+    const timestamp = this.#timestampAt(0)
+    this.#state = 'idle'
+    this.#emitMessage(this.#consume(end + messageEnd.length), timestamp)
+    return true
+  }
+
+  #stepSpeech(): boolean {
+    const end = this.#text.indexOf(speechEnd)
+    if (end < 0)
+      return this.#interrupt(speechLimit)
+    const length = end + speechEnd.length
+    const finished = this.#timestampAt(length - 1)
+    const timestamp = this.#timestampAt(0)
+    this.#state = 'idle'
+    this.#emitSpeech(this.#consume(length), timestamp, finished)
+    return true
+  }
+
+  #timestampAt(offset: number): number | undefined {
+    return this.#marks.filter((mark: TimestampMark) => mark.offset <= offset).at(-1)?.timestamp
+  }
+
+  on(_eventName: 'message', _listener: (_log: Log, _rawMessage: string, _timestamp: number) => void): this
+  on(_eventName: 'speech', _listener: (_speech: Omit<Speech, 'hash'>, _rawMessage: string, _timestamp: number) => void): this
+  on(_eventName: 'unknown', _listener: (_text: string, _timestamp: number) => void): this
+  on(eventName: 'message' | 'speech' | 'unknown', listener: ((_log: Log, _rawMessage: string, _timestamp: number) => void) | ((_speech: Omit<Speech, 'hash'>, _rawMessage: string, _timestamp: number) => void) | ((_text: string, _timestamp: number) => void)): this {
+    this.#eventEmitter.on(eventName, listener)
+    return this
+  }
+
+  push(data: Buffer, timestamp: number): void {
+    this.#marks.push({ offset: this.#text.length, timestamp })
+    this.#text += this.#decoder.write(data).replaceAll('\x07', '')
+    while (this.#step())
+      continue
+  }
+
+  /**
+   * Discards the incomplete fragment, e.g. when the connection is re-established.
+   */
+  reset(): void {
+    this.#decoder.end()
+    this.#consume(this.#text.length)
+    this.#marks.splice(0)
+    this.#state = 'idle'
+  }
+}
+
+const findFirstMarker = (text: string, position: number, markers: string[]): { index: number, marker: string } | undefined => markers.map(
+  (marker: string) => ({ index: text.indexOf(marker, position), marker })
+).filter(
+  (found: { index: number }) => 0 <= found.index
+).sort(
+  (lhs: { index: number }, rhs: { index: number }) => lhs.index - rhs.index
+).at(0)
+
+const isEffectiveIn = (marks: TimestampMark[]) => (mark: TimestampMark, index: number) => !(marks[index + 1]?.offset === 0)
+
+const messageEnd = ') <<'
+
+const messageLimit = 4096
+
+const messageMiddle = '」(チャット放話 - '
+
+const messageRE = /^>>\s「\s(?<body>[^」]+(?=\s」))\s」\(チャット放話\s-\s(?<date>\d\d\/\d\d)\s\((?<dow>[日月火水木金土])\)\s(?<time>\d\d:\d\d:\d\d)\sby\s(?<host>[^\s]+)(\s\((?<forgery>※\s贋作\sDNS\s逆引の疑い)\))?\s君(\s(?<self>〈＊あなた様＊〉))?\)\s<<$/
+
+const messageStart = '>> 「 '
+
+const speechEnd = '＝＝＝ 大演説の終焉 ＝＝＝'
+
+const speechLimit = 65536
+
+const speechRE = /^(★☆){2}\s臨時ニユース\s緊急放送\s(☆★){2}\s(?<date>\p{scx=Han}+\s\d+\s年\s\d+\s月\s\d+\s日\s[日月火水木金土]曜)\s(?<time>\d{2}:\d{2})\s+★\sたった今、(?<host>[^\s]+)\s君より[\S\s]+★\s+＝{3}\s大演説の開闢\s＝{3}(\r\n){2}(?<body>[\S\s]+(?=(\r\n){2}))\s+＝{3}\s大演説の終焉\s＝{3}$/u
+
+const speechStart = '★☆★☆ 臨時ニユース'
@@ -0,0 +1,142 @@
+import type {
+  LogOrSpeechWithTimestamp,
+  LogRecord,
+  LogType,
+} from '..'
+
+import {
+  CSV,
+  isRedisStreamItemLog,
+  isRedisStreamItemLogOrSpeechOrNotice,
+  isRedisStreamItemNotice,
+  parseJSONOr,
+} from '..'
+
+/**
+ * The position just after which the next page of `GET /api/logs` begins, i.e. the last record of the previous page.
+ */
+export interface LogCursor {
+  id: string
+  timestamp: number
+}
+
+export type LogExchangeFormat = 'csv' | 'jsonl'
+
+export interface LogFilter {
+  host?: string
+  text?: string
+  types?: LogType[]
+}
+
+/**
+ * A page of the records, where `next` is the cursor to the following page if any.
+ */
+export interface LogRecordPage {
+  next?: string
+  records: LogRecord[]
+}
+
+export namespace LogExchange {
+  /**
+   * Orders the records in descending order of their timestamps, and of their ids at the same timestamp.
+   */
+  export const compare = (lhs: LogCursor, rhs: LogCursor): number => rhs.timestamp - lhs.timestamp || +(lhs.id < rhs.id) - +(rhs.id < lhs.id)
+
+  export const decodeCursor = (text: string): LogCursor | undefined => {
+    const value = parseJSONOr(Buffer.from(text, 'base64url').toString(), undefined)
+    const [timestamp, id] = Array.isArray(value) ? value : []
+    if (typeof timestamp === 'number' && typeof id === 'string')
+      return { id, timestamp }
+  }
+
+  export const encodeCursor = (record: LogRecord): string => Buffer.from(JSON.stringify([record.timestamp, record.id])).toString('base64url')
+
+  export const format = (records: LogRecord[], format: LogExchangeFormat): string => format === 'csv'
+    ? formatCSV(records)
+    : records.map((record: LogRecord) => JSON.stringify(record) + '\n').join('')
+
+  /**
+   * Formats the batches of the records one after another, so that a long export need not be held in memory at once.
+   * The columns of CSV are fixed, i.e. the fields of the messages which are not any of them are not exported.
+   */
+  export async function* formatBatches(batches: AsyncIterable<LogRecord[]>, format: LogExchangeFormat): AsyncGenerator<string> {
+    if (format === 'csv')
+      yield CSV.format([[...fixedColumns]])
+    for await (const records of batches)
+      yield format === 'csv' ? CSV.format(rowsOf(records, fixedColumns)) : LogExchange.format(records, format)
+  }
+
+  export const matches = (filter: LogFilter) => (record: LogRecord): boolean => {
+    const { host, text, types } = filter
+    return (types ?? [record.type]).includes(record.type) && includesOrUnfiltered(record.message.host, host) && includesOrUnfiltered(record.message.body, text)
+  }
+
+  /**
+   * Parses the exported text, and drops the records which are not any of logs, notices and speeches.
+   */
+  export const parse = (text: string, format: LogExchangeFormat): LogRecord[] => {
+    const records = format === 'csv'
+      ? parseCSV(text)
+      : text.split(/\r?\n/).filter((line: string) => line.length).map((line: string) => parseJSONOr(line, undefined) as LogRecord)
+    return records.filter(isLogRecord)
+  }
+
+  export const toRecord = (value: LogOrSpeechWithTimestamp): LogRecord => {
+    const { item, timestamp } = value
+    return { id: item.id, message: item.message, timestamp, type: typeOf(value) }
+  }
+}
+
+const flatten = (record: LogRecord): Record<string, number | string> => {
+  const { id, message, timestamp, type } = record
+  return { ...message, id, timestamp, type }
+}
+
+const formatCSV = (records: LogRecord[]): string => {
+  const extra = new Set(records.flatMap((record: LogRecord) => Object.keys(record.message)))
+  fixedColumns.forEach(extra.delete.bind(extra))
+  const columns = [...fixedColumns, ...[...extra].sort()]
+  return CSV.format([columns, ...rowsOf(records, columns)])
+}
+
+const fixedColumns: Readonly<string[]> = [
+  'id',
+  'timestamp',
+  'type',
+  'body',
+  'date',
+  'dow',
+  'time',
+  'host',
+  'forgery',
+  'self',
+  'hash',
+  'estimated',
+  'finished',
+  'kind',
+  'users',
+] as const
+
+const includesOrUnfiltered = (value: string | undefined, part: string | undefined) => part === undefined || !!value?.includes(part)
+
+const isLogRecord = (value: LogRecord | undefined): value is LogRecord => typeof value?.timestamp === 'number' && isRedisStreamItemLogOrSpeechOrNotice(value)
+
+const parseCSV = (text: string): LogRecord[] => {
+  const [header, ...rows] = CSV.parse(text)
+  return rows.map(
+    (row: string[]) => {
+      const fields = Object.fromEntries(row.map((value: string, index: number) => [header[index], value]).filter(([, value]: string[]) => value.length))
+      const { id, timestamp, type, ...message } = fields
+      return { id, message, timestamp: Number(timestamp), type } as LogRecord
+    }
+  )
+}
+
+const rowsOf = (records: LogRecord[], columns: Readonly<string[]>): string[][] => records.map(flatten).map(
+  (fields: Record<string, number | string>) => columns.map((column: string) => `${fields[column] ?? ''}`)
+)
+
+const typeOf = (value: LogOrSpeechWithTimestamp): LogType => {
+  const { item } = value
+  return isRedisStreamItemLog(item) ? 'log' : (isRedisStreamItemNotice(item) ? 'notice' : 'speech')
+}
@@ -0,0 +1,72 @@
+import type {
+  LogDeliveryMode,
+  LogPage,
+} from '..'
+
+interface LogPageSet {
+  expiresAt: number
+  index: number
+  mode: LogDeliveryMode
+  pages: string[][]
+  subject: string
+  total: number
+}
+
+/**
+ * Remembers the pages of the last result of the `ログ` and `検索` commands for each requesting host,
+ * so that `ログ 続き` can take up where the previous page left off.
+ * A result is forgotten once its last page has been taken, or `ttl` milliseconds after its last page was taken.
+ */
+export class LogPages {
+  readonly #sets = new Map<string, LogPageSet>()
+  readonly #ttl: number
+
+  #forgetExpired(): void {
+    const now = Date.now()
+    for (const [key, set] of this.#sets)
+      if (set.expiresAt < now)
+        this.#sets.delete(key)
+  }
+
+  constructor(ttl: number) {
+    this.#ttl = ttl
+  }
+
+  /**
+   * Takes the next page of the result remembered for `key`, or `undefined` if there is none.
+   */
+  next(key: string): LogPage | undefined {
+    this.#forgetExpired()
+    const set = this.#sets.get(key)
+    if (set) {
+      const { index, mode, pages, subject, total } = set
+      set.expiresAt = Date.now() + this.#ttl
+      set.index++
+      if (pages.length <= set.index)
+        this.#sets.delete(key)
+      return { items: pages[index], mode, number: index + 1, pages: pages.length, subject, total }
+    }
+  }
+
+  /**
+   * Remembers a result split into pages for `key`, replacing the one remembered before.
+   */
+  remember(key: string, pages: string[][], mode: LogDeliveryMode, subject: string, total: number): void {
+    this.#forgetExpired()
+    this.#sets.set(key, { expiresAt: Date.now() + this.#ttl, index: 0, mode, pages, subject, total })
+  }
+}
+
+/**
+ * Splits the items into pages of `size` items each.
+ * The pages are taken from the end of the items if `reverse` is true, while the order of the items in each page is kept.
+ */
+export const paginate = <T>(items: T[], size: number, reverse: boolean): T[][] => {
+  const ordered = reverse ? [...items].reverse() : items
+  const pages = [] as T[][]
+  for (let start = 0; start < ordered.length; start += size) {
+    const page = ordered.slice(start, start + size)
+    pages.push(reverse ? page.reverse() : page)
+  }
+  return pages
+}
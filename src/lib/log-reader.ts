@@ -0,0 +1,81 @@
+import type {
+  LogArchiveService,
+  LogOrSpeechWithTimestamp,
+  Storage,
+  TimeRange,
+} from '..'
+
+import {
+  parseIntOr,
+} from '..'
+
+/**
+ * Reads the logs from the storage, and from the archives for the part of a range which is no longer in the storage.
+ * It needs nothing but the storage and the archives, so that the tools can read the logs without the services posting to the chat.
+ */
+export class LogReader {
+  readonly #archive: LogArchiveService
+  readonly #batchSize: number
+  readonly #storage: Storage
+
+  async #queryArchive(items: LogOrSpeechWithTimestamp[], range: TimeRange, count: number | undefined): Promise<LogOrSpeechWithTimestamp[]> {
+    const max = items.at(-1)?.timestamp ?? range.max
+    const archived = await this.#archive.query({ max, min: range.min }, count && count - items.length)
+    const ids = new Set(items.map((value: LogOrSpeechWithTimestamp) => value.item.id))
+    return archived.filter((value: LogOrSpeechWithTimestamp) => !ids.has(value.item.id))
+  }
+
+  /**
+   * Tells whether the range down to `min` goes beyond the oldest log still in the storage, i.e. into the archives.
+   */
+  async #reachesArchive(min: number | '-'): Promise<boolean> {
+    const oldest = await this.#storage.oldestLogTimestamp()
+    return min === '-' || oldest === undefined || min < oldest
+  }
+
+  constructor(storage: Storage, archive: LogArchiveService) {
+    this.#archive = archive
+    this.#batchSize = parseIntOr(process.env.LOG_BATCH_SIZE, 1000)
+    this.#storage = storage
+  }
+
+  /**
+   * Iterates over the logs within the range in descending order of their timestamps, at most `size` of them at a time,
+   * so that a long range can be processed without holding all of it in memory.
+   * `size` is `LOG_BATCH_SIZE` (1000 by default) unless it is given.
+   */
+  async *batches(max: number | '+', min: number | '-', size: number = this.#batchSize): AsyncGenerator<LogOrSpeechWithTimestamp[]> {
+    const boundary = new Set<string>()
+    for (let upper = max; ;) {
+      const values = (await this.query(upper, min, size + boundary.size)).filter((value: LogOrSpeechWithTimestamp) => !boundary.has(value.item.id))
+      if (values.length === 0)
+        return
+      yield values
+      upper = rememberBoundary(boundary, values, upper)
+    }
+  }
+
+  /**
+   * Queries the logs within the range in descending order of their timestamps,
+   * reading the archives as well only if the storage does not have `count` of them and the range reaches beyond its oldest log.
+   */
+  async query(max: number | '+', min: number | '-', count?: number): Promise<LogOrSpeechWithTimestamp[]> {
+    const range = { max, min }
+    const items = await this.#storage.queryLogs(range, count)
+    return items.length < (count ?? Infinity) && await this.#reachesArchive(min)
+      ? items.concat(await this.#queryArchive(items, range, count))
+      : items
+  }
+}
+
+/**
+ * Keeps the ids of the values at the oldest timestamp of the batch to skip them in the next batch,
+ * which is queried up to that timestamp inclusively, and returns it.
+ */
+const rememberBoundary = (boundary: Set<string>, values: LogOrSpeechWithTimestamp[], upper: number | '+') => {
+  const { timestamp } = values.at(-1)
+  if (timestamp !== upper)
+    boundary.clear()
+  values.filter((value: LogOrSpeechWithTimestamp) => value.timestamp === timestamp).forEach((value: LogOrSpeechWithTimestamp) => boundary.add(value.item.id))
+  return timestamp
+}
@@ -0,0 +1,130 @@
+import type {
+  Log,
+  LogOrSpeechWithTimestamp,
+  Notice,
+  OutboxEntry,
+  Speech,
+  Storage,
+  TimeRange,
+} from '..'
+
+/**
+ * Keeps everything in memory, so that the bot can run without Redis, e.g. for tests and short-lived trials.
+ * Nothing survives a restart.
+ */
+export class MemoryStorage implements Storage {
+  readonly #deadLetters = [] as OutboxEntry[]
+  readonly #keywords = new Map<string, string>()
+  readonly #outbox = new Map<string, OutboxEntry>()
+  #logs = [] as LogOrSpeechWithTimestamp[]
+  #schemaVersion?: number
+  #sequence = 0
+  #session?: Buffer
+
+  async appendLog(message: Log | Notice | Speech, timestamp: number, id: string = `${timestamp}-${this.#sequence++}`): Promise<string> {
+    this.#logs.push({ item: { id, message: { ...message } }, timestamp } as LogOrSpeechWithTimestamp)
+    return id
+  }
+
+  async connect(): Promise<void> {
+  }
+
+  async deadLetters(): Promise<OutboxEntry[]> {
+    return this.#deadLetters.map(clone)
+  }
+
+  async deleteKeyword(name: string): Promise<boolean> {
+    return this.#keywords.delete(name)
+  }
+
+  async findKeywords(...names: string[]): Promise<string[]> {
+    return names.map((name: string) => this.#keywords.get(name))
+  }
+
+  async keywords(): Promise<Record<string, string>> {
+    return Object.fromEntries(this.#keywords)
+  }
+
+  async loadSession(): Promise<Buffer | undefined> {
+    return this.#session
+  }
+
+  async oldestLogTimestamp(): Promise<number | undefined> {
+    const oldest = this.#logs.reduce((oldest: number, log: LogOrSpeechWithTimestamp) => Math.min(oldest, log.timestamp), Infinity)
+    return [oldest, undefined][+(oldest === Infinity)]
+  }
+
+  async outboxEntries(): Promise<OutboxEntry[]> {
+    return [...this.#outbox.values()].map(clone)
+  }
+
+  async purgeDeadLetters(): Promise<boolean> {
+    return 0 < this.#deadLetters.splice(0).length
+  }
+
+  async pushDeadLetter(entry: OutboxEntry): Promise<void> {
+    this.#deadLetters.unshift(clone(entry))
+  }
+
+  async putOutboxEntry(entry: OutboxEntry): Promise<void> {
+    this.#outbox.set(entry.id, clone(entry))
+  }
+
+  async queryLogs(range: TimeRange, count?: number): Promise<LogOrSpeechWithTimestamp[]> {
+    const max = range.max === '+' ? Infinity : range.max
+    const min = range.min === '-' ? -Infinity : range.min
+    const logs = this.#logs.filter((log: LogOrSpeechWithTimestamp) => min <= log.timestamp && log.timestamp <= max)
+    return logs.reverse().sort(descendingByTimestamp).slice(0, count).map(clone)
+  }
+
+  async registerKeyword(name: string, value: string): Promise<boolean> {
+    const absent = !this.#keywords.has(name)
+    if (absent)
+      this.#keywords.set(name, value)
+    return absent
+  }
+
+  async removeDeadLetter(id: string): Promise<boolean> {
+    const index = this.#deadLetters.findIndex((entry: OutboxEntry) => entry.id === id)
+    return 0 < this.#deadLetters.splice(index, +(0 <= index)).length
+  }
+
+  async removeLogs(ids: string[]): Promise<number> {
+    const removing = new Set(ids)
+    const { length } = this.#logs
+    this.#logs = this.#logs.filter((log: LogOrSpeechWithTimestamp) => !removing.has(log.item.id))
+    return length - this.#logs.length
+  }
+
+  async removeOutboxEntry(id: string): Promise<boolean> {
+    return this.#outbox.delete(id)
+  }
+
+  async saveSession(data: Buffer): Promise<void> {
+    this.#session = data
+  }
+
+  async scanLogs(count?: number): Promise<LogOrSpeechWithTimestamp[]> {
+    return this.#logs.slice(0, count).map(clone)
+  }
+
+  async schemaVersion(): Promise<number | undefined> {
+    return this.#schemaVersion
+  }
+
+  async setSchemaVersion(version: number): Promise<void> {
+    this.#schemaVersion = version
+  }
+
+  async updateLogs(values: LogOrSpeechWithTimestamp[]): Promise<void> {
+    const updates = new Map(values.map((value: LogOrSpeechWithTimestamp) => [value.item.id, clone(value)]))
+    this.#logs = this.#logs.map((log: LogOrSpeechWithTimestamp) => updates.get(log.item.id) ?? log)
+  }
+
+  async [Symbol.asyncDispose](): Promise<void> {
+  }
+}
+
+const clone = <T>(value: T): T => structuredClone(value)
+
+const descendingByTimestamp = (lhs: LogOrSpeechWithTimestamp, rhs: LogOrSpeechWithTimestamp) => rhs.timestamp - lhs.timestamp
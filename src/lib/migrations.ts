@@ -0,0 +1,60 @@
+import type {
+  LogOrSpeechWithTimestamp,
+  Migration,
+} from '..'
+
+/**
+ * The migrations of the stored logs in ascending order of their versions.
+ * Each of them returns `undefined` for the logs which need no change, so that running it twice changes nothing.
+ */
+export const migrations: Readonly<Migration[]> = [
+  {
+    description: 'decompose raw chat lines into fields',
+    migrate: (value: LogOrSpeechWithTimestamp) => {
+      const message = value.item.message as Record<string, string>
+      const fields = 'log' in message ? decompose(message.log) : undefined
+      if (fields)
+        return { ...value, item: { ...value.item, message: fields } } as LogOrSpeechWithTimestamp
+    },
+    version: 1,
+  },
+  {
+    description: 'estimate when each speech was finished',
+    migrate: (value: LogOrSpeechWithTimestamp, startedAt: number) => {
+      const message = value.item.message as Record<string, string>
+      if ('hash' in message && !('finished' in message)) {
+        const { body, date, host } = message
+        const length = [body, date, host].join('').length + body.split(/\r?\n/).length * 10 + 110
+        const finished = insertedAt(value) - 125
+        return {
+          item: {
+            ...value.item,
+            message: { ...message, estimated: `${startedAt}`, finished: `${finished}` },
+          },
+          timestamp: finished - length * 43,
+        } as LogOrSpeechWithTimestamp
+      }
+    },
+    version: 2,
+  },
+]
+
+const decompose = (text: string): Record<string, string> | undefined => {
+  for (const matched of text.matchAll(messageRE)) {
+    const { groups } = matched
+    const item = {} as Record<string, string>
+    for (const key in groups) {
+      const value = groups[key]
+      if (!(value === undefined))
+        item[key] = value
+    }
+    return item
+  }
+}
+
+const insertedAt = (value: LogOrSpeechWithTimestamp): number => {
+  const { id } = value.item
+  return /^\d+-\d+$/.test(id) ? parseInt(id) : value.timestamp
+}
+
+const messageRE = />>\s「\s(?<body>[^」]+(?=\s」))\s」\(チャット放話\s-\s(?<date>\d\d\/\d\d)\s\((?<dow>[日月火水木金土])\)\s(?<time>\d\d:\d\d:\d\d)\sby\s(?<host>[^\s]+)(\s\((?<forgery>※\s贋作\sDNS\s逆引の疑い)\))?\s君(\s(?<self>〈＊あなた様＊〉))?\)\s<</g
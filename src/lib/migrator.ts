@@ -0,0 +1,95 @@
+import type {
+  LogOrSpeechWithTimestamp,
+  Migration,
+  MigrationResult,
+  Storage,
+} from '..'
+
+import {
+  migrations,
+} from '..'
+
+/**
+ * Brings the stored logs up to the latest schema version by running the pending migrations in order,
+ * and records the version in the storage after each of them.
+ */
+export class Migrator {
+  readonly #migrations: Readonly<Migration[]>
+  readonly #storage: Storage
+
+  async #adopt(): Promise<void> {
+    if (await this.#hasLogs())
+      console.log(`[migrate] \x1b[33mschema version is not recorded\x1b[m, run 'npm run migrate' to bring the logs up to ${this.latestVersion}`)
+    else
+      await this.#storage.setSchemaVersion(this.latestVersion)
+  }
+
+  #apply(migration: Migration, logs: LogOrSpeechWithTimestamp[], startedAt: number): LogOrSpeechWithTimestamp[] {
+    const { description, version } = migration
+    const changed = [] as LogOrSpeechWithTimestamp[]
+    for (const [index, value] of logs.entries()) {
+      const migrated = migration.migrate(value, startedAt)
+      if (migrated)
+        changed.push(logs[index] = migrated)
+      if ((index + 1) % progressInterval === 0)
+        console.log(`[migrate] v${version} ${description}, \x1b[33m${index + 1}\x1b[m/${logs.length}`)
+    }
+    return changed
+  }
+
+  async #hasLogs(): Promise<boolean> {
+    return (await this.#storage.scanLogs(1)).length !== 0
+  }
+
+  constructor(storage: Storage, steps: Readonly<Migration[]> = migrations) {
+    this.#migrations = steps
+    this.#storage = storage
+  }
+
+  get latestVersion(): number {
+    return this.#migrations.at(-1)?.version ?? 0
+  }
+
+  /**
+   * Returns an error if the schema version recorded in the storage is outdated.
+   * A storage without the version is recorded as the latest one if it has no logs.
+   * Otherwise it is left unversioned with a warning instead of refusing to start,
+   * and `npm run migrate` regards it as version 0, i.e. applies all the migrations, which change nothing in the logs already migrated.
+   */
+  async check(): Promise<Error | undefined> {
+    const stored = await this.#storage.schemaVersion()
+    if (stored === undefined)
+      await this.#adopt()
+    else if (stored < this.latestVersion)
+      return new Error(`schema version ${stored} is older than ${this.latestVersion}, run 'npm run migrate' first`)
+  }
+
+  async currentVersion(): Promise<number> {
+    const version = await this.#storage.schemaVersion()
+    return version ?? [0, this.latestVersion][+!await this.#hasLogs()]
+  }
+
+  /**
+   * Runs the pending migrations, or just reports what they would change if `dryRun` is true.
+   */
+  async run(dryRun: boolean): Promise<MigrationResult[]> {
+    const current = await this.currentVersion()
+    const pending = this.#migrations.filter((migration: Migration) => current < migration.version)
+    const logs = pending.length ? await this.#storage.scanLogs() : []
+    const results = [] as MigrationResult[]
+    const startedAt = Date.now()
+    for (const migration of pending) {
+      const { description, version } = migration
+      const changed = this.#apply(migration, logs, startedAt)
+      console.log(`[migrate] v${version} ${description}, \x1b[32m${changed.length}\x1b[m of ${logs.length} logs ${['changed', 'would be changed'][+dryRun]}`)
+      if (!dryRun) {
+        await this.#storage.updateLogs(changed)
+        await this.#storage.setSchemaVersion(version)
+      }
+      results.push({ changed: changed.length, description, scanned: logs.length, version })
+    }
+    return results
+  }
+}
+
+const progressInterval = 10000
@@ -0,0 +1,84 @@
+import {
+  SJIS,
+  parseIntOr,
+} from '..'
+
+export type OutgoingTextPlan = {
+  lines: string[]
+} | {
+  speech: string
+}
+
+export namespace OutgoingText {
+  /**
+   * Prepares a chat text, i.e. strips control characters, normalises characters which cannot be encoded,
+   * and splits the text into numbered lines if it exceeds `OUTGOING_MAX_BYTES` bytes in ShiftJIS.
+   * The text is turned into a speech instead if it needs more than `OUTGOING_MAX_LINES` lines.
+   * The default of 256 bytes is not a limit published by the server, but a conservative budget for a single chat line,
+   * which leaves room for the server's own decoration of the line and can be tuned if the server is found to accept more or less.
+   */
+  export const prepareChat = async (text: string): Promise<OutgoingTextPlan> => {
+    const { OUTGOING_MAX_BYTES, OUTGOING_MAX_LINES } = process.env
+    const normalized = await normalize(stripControlCharacters(text.replaceAll(/\s*[\r\n]+\s*/g, ' ')).trim())
+    const lines = await split(normalized, parseIntOr(OUTGOING_MAX_BYTES, 256))
+    return lines.length <= parseIntOr(OUTGOING_MAX_LINES, 3)
+      ? { lines }
+      : { speech: await prepareSpeech(text) }
+  }
+
+  /**
+   * Prepares a speech, i.e. strips control characters except line breaks, and normalises characters which cannot be encoded.
+   */
+  export const prepareSpeech = async (text: string): Promise<string> => {
+    const lines = text.split(/\r?\n/).map(stripControlCharacters)
+    return (await Promise.all(lines.map(normalize))).join('\n')
+  }
+
+  /**
+   * Splits a text into lines each of which fits in `maxBytes` bytes in ShiftJIS, as the server receives it,
+   * keeping the leading tag such as `[Bot]` and appending the sequence number to each line.
+   */
+  export const split = async (text: string, maxBytes: number): Promise<string[]> => {
+    if (await byteLengthOf(text) <= maxBytes)
+      return [text]
+    const prefix = text.match(prefixRE)?.[0] ?? ''
+    const chunks = await chunk(text.slice(prefix.length), maxBytes - await byteLengthOf(prefix) - numberingBytes)
+    return chunks.map((body: string, index: number) => `${prefix}(${index + 1}/${chunks.length}) ${body}`)
+  }
+}
+
+const atomRE = /(％[0-9A-F]{2})+|[\S\s]/gu
+
+/**
+ * Measures a text in ShiftJIS, escaping the characters which cannot be encoded as `SJIS.escape` does,
+ * or in UTF-8 if the code map is unavailable.
+ */
+const byteLengthOf = (text: string): Promise<number> => SJIS.escape(text).then(SJIS.encode).then(
+  (data: Buffer) => data.byteLength,
+  () => Buffer.byteLength(text)
+)
+
+const chunk = async (text: string, budget: number): Promise<string[]> => {
+  const atoms = text.match(atomRE) ?? []
+  const sizes = await Promise.all(atoms.map(byteLengthOf))
+  const chunks = [''] as string[]
+  let used = 0
+  for (const [index, atom] of atoms.entries()) {
+    const fits = used + sizes[index] <= budget
+    chunks.push(fits ? chunks.pop() + atom : atom)
+    used = fits ? used + sizes[index] : sizes[index]
+  }
+  return chunks.map((chunk: string) => chunk.trim()).filter((chunk: string) => chunk.length)
+}
+
+const controlCharacterRE = /[\0-\x08\x0b-\x1f\x7f-\x9f]/g
+
+const normalize = (text: string): Promise<string> => SJIS.normalize(text).catch(
+  (reason: Error) => (console.error(`[outgoing] ${reason.message}`), text)
+)
+
+const numberingBytes = 10
+
+const prefixRE = /^\[[^\]]+\]\s/
+
+const stripControlCharacters = (text: string): string => text.replaceAll(controlCharacterRE, '').replaceAll('\t', ' ')
@@ -0,0 +1,218 @@
+import type {
+  Log,
+  LogOrSpeechWithTimestamp,
+  Notice,
+  OutboxEntry,
+  RedisStreamItem,
+  Speech,
+  Storage,
+  TimeRange,
+} from '..'
+
+import {
+  isOutboxEntry,
+  isRedisStreamItemLogOrSpeechOrNotice,
+  parseIntOr,
+  parseJSONOr,
+} from '..'
+
+import type { RedisClientType } from '@redis/client'
+import { createClient } from '@redis/client'
+
+type RedisKeyName = keyof typeof defaultKeys
+
+/**
+ * Stores logs in a stream along with a sorted set of their timestamps, and everything else in hashes and lists.
+ * The keys can be changed by `REDIS_*_KEY` environment variables.
+ */
+export class RedisStorage implements Storage {
+  readonly #client: RedisClientType
+  readonly #keys: Record<RedisKeyName, string>
+
+  /**
+   * Copies the stream into a temporary key with the updates applied, and then replaces the stream with it
+   * and updates the timestamps in a single transaction, so that the stream is left intact if it is interrupted.
+   * The temporary key left by an interrupted run is discarded at first.
+   */
+  async #rebuildLogs(updates: Map<string, LogOrSpeechWithTimestamp>): Promise<void> {
+    const temporary = `${this.#keys.LOG}:migrating`
+    await this.#client.del(temporary)
+    for (const { id, message } of await this.#client.xRange(this.#keys.LOG, '-', '+'))
+      await this.#client.xAdd(temporary, id, updates.get(id)?.item.message ?? message)
+    const scores = [...updates.values()].map((value: LogOrSpeechWithTimestamp) => ({ score: value.timestamp, value: value.item.id }))
+    await this.#client.multi().rename(temporary, this.#keys.LOG).zAdd(this.#keys.TIMESTAMP, scores).exec()
+  }
+
+  /**
+   * Reads the timestamps of the logs given by `ids`, or of all the logs if it is not given.
+   */
+  async #timestamps(ids?: string[]): Promise<Map<string, number>> {
+    if (ids === undefined)
+      return new Map((await this.#client.zRangeWithScores(this.#keys.TIMESTAMP, 0, -1)).map(convertScoreToTuple))
+    const scores = ids.length ? await this.#client.zmScore(this.#keys.TIMESTAMP, ids) : []
+    return new Map(ids.map((id: string, index: number) => [id, scores[index]] as [string, number]).filter((entry: [string, number]) => entry[1] !== null))
+  }
+
+  constructor() {
+    const { env } = process
+    this.#client = createClient(
+      {
+        pingInterval: 15000,
+        url: env.REDIS_URL,
+      }
+    )
+    const keys = Object.entries(defaultKeys).map(([name, key]: [string, string]) => [name, env[`REDIS_${name}_KEY`] ?? key])
+    this.#keys = Object.fromEntries(keys)
+  }
+
+  async appendLog(message: Log | Notice | Speech, timestamp: number, id: string = '*'): Promise<string> {
+    const added = await this.#client.xAdd(this.#keys.LOG, id, message)
+    await this.#client.zAdd(this.#keys.TIMESTAMP, { score: timestamp, value: added })
+    return added
+  }
+
+  async connect(): Promise<void> {
+    await this.#client.connect()
+  }
+
+  async deadLetters(): Promise<OutboxEntry[]> {
+    const list = await this.#client.lRange(this.#keys.OUTBOX_DEAD_LETTER, 0, -1)
+    return list.map(parseEntry).filter(isOutboxEntry)
+  }
+
+  async deleteKeyword(name: string): Promise<boolean> {
+    return 0 < await this.#client.hDel(this.#keys.USERKEYWORD, name)
+  }
+
+  findKeywords(...names: string[]): Promise<string[]> {
+    return this.#client.hmGet(this.#keys.USERKEYWORD, names)
+  }
+
+  keywords(): Promise<Record<string, string>> {
+    return this.#client.hGetAll(this.#keys.USERKEYWORD)
+  }
+
+  async loadSession(): Promise<Buffer | undefined> {
+    const data = await this.#client.get(this.#keys.SESSION)
+    if (data)
+      return Buffer.from(data, 'hex')
+  }
+
+  async oldestLogTimestamp(): Promise<number | undefined> {
+    const [oldest] = await this.#client.zRangeWithScores(this.#keys.TIMESTAMP, 0, 0)
+    return oldest?.score
+  }
+
+  async outboxEntries(): Promise<OutboxEntry[]> {
+    const entries = await this.#client.hGetAll(this.#keys.OUTBOX)
+    return Object.values(entries).map(parseEntry).filter(isOutboxEntry)
+  }
+
+  async purgeDeadLetters(): Promise<boolean> {
+    return 0 < await this.#client.del(this.#keys.OUTBOX_DEAD_LETTER)
+  }
+
+  async pushDeadLetter(entry: OutboxEntry): Promise<void> {
+    await this.#client.lPush(this.#keys.OUTBOX_DEAD_LETTER, JSON.stringify(entry))
+  }
+
+  async putOutboxEntry(entry: OutboxEntry): Promise<void> {
+    await this.#client.hSet(this.#keys.OUTBOX, entry.id, JSON.stringify(entry))
+  }
+
+  async queryLogs(range: TimeRange, count?: number): Promise<LogOrSpeechWithTimestamp[]> {
+    const { max, min } = range
+    const limit = count === undefined ? {} : { LIMIT: { count, offset: 0 } }
+    const scores = await this.#client.zRangeWithScores(this.#keys.TIMESTAMP, max === '+' ? '+inf' : max, min === '-' ? '-inf' : min, { BY: 'SCORE', REV: true, ...limit })
+    const timestamps = new Map(scores.map(convertScoreToTuple))
+    if (timestamps.size) {
+      const sorted = [...timestamps.keys()].sort()
+      const items = await this.#client.xRevRange(this.#keys.LOG, sorted.at(-1), sorted.at(0)) as RedisStreamItem<Record<string, string>>[]
+      return items.filter(hasItemId(timestamps)).sort(descendingById(timestamps)).filter(isRedisStreamItemLogOrSpeechOrNotice).map(combineItemAndTimestamp(timestamps))
+    }
+    return []
+  }
+
+  registerKeyword(name: string, value: string): Promise<boolean> {
+    return this.#client.hSetNX(this.#keys.USERKEYWORD, name, value)
+  }
+
+  async removeDeadLetter(id: string): Promise<boolean> {
+    const list = await this.#client.lRange(this.#keys.OUTBOX_DEAD_LETTER, 0, -1)
+    const raw = list.find((raw: string) => (parseEntry(raw) as OutboxEntry | undefined)?.id === id)
+    return raw !== undefined && 0 < await this.#client.lRem(this.#keys.OUTBOX_DEAD_LETTER, 1, raw)
+  }
+
+  async removeLogs(ids: string[]): Promise<number> {
+    if (ids.length === 0)
+      return 0
+    const [removed] = await this.#client.multi().xDel(this.#keys.LOG, ids).zRem(this.#keys.TIMESTAMP, ids).exec()
+    return removed as number
+  }
+
+  async removeOutboxEntry(id: string): Promise<boolean> {
+    return 0 < await this.#client.hDel(this.#keys.OUTBOX, id)
+  }
+
+  async saveSession(data: Buffer): Promise<void> {
+    await this.#client.set(this.#keys.SESSION, data.toString('hex'))
+  }
+
+  async scanLogs(count?: number): Promise<LogOrSpeechWithTimestamp[]> {
+    const items = await this.#client.xRange(this.#keys.LOG, '-', '+', { COUNT: count })
+    const timestamps = await this.#timestamps(count === undefined ? undefined : items.map((item: { id: string }) => item.id))
+    return items.map(
+      (item: RedisStreamItem<Record<string, string>>) => ({ item, timestamp: timestamps.get(item.id) ?? parseInt(item.id) }) as LogOrSpeechWithTimestamp
+    )
+  }
+
+  async schemaVersion(): Promise<number | undefined> {
+    return parseIntOr(await this.#client.get(this.#keys.SCHEMA), undefined)
+  }
+
+  async setSchemaVersion(version: number): Promise<void> {
+    await this.#client.set(this.#keys.SCHEMA, `${version}`)
+  }
+
+  /**
+   * Rebuilds the stream with the same ids, since an entry of a stream cannot be modified in place.
+   * The bot should not be running meanwhile, since the logs appended during the rebuild are lost.
+   */
+  async updateLogs(values: LogOrSpeechWithTimestamp[]): Promise<void> {
+    if (values.length)
+      await this.#rebuildLogs(new Map(values.map((value: LogOrSpeechWithTimestamp) => [value.item.id, value])))
+  }
+
+  async [Symbol.asyncDispose](): Promise<void> {
+    await this.#client.disconnect()
+  }
+}
+
+const combineItemAndTimestamp = (timestamps: Map<string, number>) => (item: RedisStreamItem<Log> | RedisStreamItem<Notice> | RedisStreamItem<Speech>) => {
+  const timestamp = timestamps.get(item.id)
+  return {
+    item,
+    timestamp
+  }
+}
+
+const convertScoreToTuple = (range: { score: number, value: string }) => {
+  const { score, value } = range
+  return [value, score] as [string, number]
+}
+
+const defaultKeys = {
+  LOG: 'koukoku:log',
+  OUTBOX: 'koukoku:outbox',
+  OUTBOX_DEAD_LETTER: 'koukoku:outbox:dead',
+  SCHEMA: 'koukoku:schema',
+  SESSION: 'koukoku:session',
+  TIMESTAMP: 'koukoku:timestamp',
+  USERKEYWORD: 'koukoku:keywords',
+}
+
+const descendingById = (dict: Map<string, number>) => (lhs: { id: string }, rhs: { id: string }) => dict.get(rhs.id) - dict.get(lhs.id)
+
+const hasItemId = (dict: Map<string, number>) => (item: { id: string }) => dict.has(item.id)
+
+const parseEntry = (text: string): unknown => parseJSONOr(text, undefined)
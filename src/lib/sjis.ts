@@ -13,7 +13,16 @@ export namespace SJIS {
 
   export const escape = async (text: string): Promise<string> => {
     const codeMap = await getCodeMapAsync()
-    return [...text].map((c: string) => c in codeMap ? c : encodeURI(c).replaceAll('%', '％')).join('')
+    return [...text].map((c: string) => c in codeMap ? c : escapeSingle(c)).join('')
+  }
+
+  /**
+   * Replaces each character which cannot be encoded in ShiftJIS with its compatibility equivalent if encodable,
+   * e.g. `①` with `1`, or escapes it in the same way as `escape` otherwise.
+   */
+  export const normalize = async (text: string): Promise<string> => {
+    const codeMap = await getCodeMapAsync()
+    return [...text].map((c: string) => c in codeMap ? c : substituteSingle(codeMap, c)).join('')
   }
 }
 
@@ -37,6 +46,8 @@ const decodeSingle = async (ctx: { i: number, text: string }, data: Buffer): Pro
 
 const encodeSingle = (c: string): Promise<Buffer> => c in codeMap ? Promise.resolve(Buffer.of(...codeMap[c])) : Promise.reject(new Error(`'${c}' is inappropriate sequence as ShiftJIS`))
 
+const escapeSingle = (c: string): string => encodeURI(c).replaceAll('%', '％')
+
 const getCodeMapAsync = async (): Promise<Record<string, number[]>> => {
   for (const _ in codeMap)
     return codeMap
@@ -65,4 +76,9 @@ const getReverseCodeMapAsync = async (): Promise<void> => {
 
 const reverseCodeMap = {} as Record<number, Record<number, string> | string>
 
+const substituteSingle = (codeMap: Record<string, number[]>, c: string): string => {
+  const normalized = c.normalize('NFKC')
+  return [...normalized].every((d: string) => d in codeMap) ? normalized : escapeSingle(c)
+}
+
 const toHexString = (...values: number[]): string => values.map((v: number) => ('0' + v.toString(16)).slice(-2)).join('')
@@ -0,0 +1,212 @@
+import type {
+  Log,
+  LogOrSpeechWithTimestamp,
+  Notice,
+  OutboxEntry,
+  Speech,
+  Storage,
+  TimeRange,
+} from '..'
+
+import {
+  isOutboxEntry,
+  isRedisStreamItemLogOrSpeechOrNotice,
+  parseIntOr,
+  parseJSONOr,
+} from '..'
+
+import type { DatabaseSync } from 'node:sqlite'
+
+interface LogRow {
+  id: number
+  message: string
+  timestamp: number
+}
+
+/**
+ * Stores everything in a single SQLite file at `SQLITE_PATH`, for small deployments without a Redis server.
+ * Requires `node:sqlite`, i.e. Node.js 22.5.0 or later.
+ */
+export class SqliteStorage implements Storage {
+  #db?: DatabaseSync
+  readonly #path: string
+
+  #all<T>(sql: string, ...values: (number | string)[]): T[] {
+    return this.#db.prepare(sql).all(...values) as T[]
+  }
+
+  #run(sql: string, ...values: (Buffer | number | string)[]): number {
+    const { changes } = this.#db.prepare(sql).run(...values)
+    return Number(changes)
+  }
+
+  /**
+   * Runs the action in a transaction, which is rolled back if the action throws, so that the connection is never left in it.
+   */
+  #transaction<T>(action: () => T): T {
+    this.#db.exec('BEGIN')
+    try {
+      const result = action()
+      this.#db.exec('COMMIT')
+      return result
+    }
+    catch (error: unknown) {
+      this.#db.exec('ROLLBACK')
+      throw error
+    }
+  }
+
+  constructor() {
+    if (!hasNodeSqlite(process.versions.node))
+      throw new Error(`STORAGE_BACKEND=sqlite requires Node.js 22.5.0 or later, but this is ${process.version}`)
+    this.#path = process.env.SQLITE_PATH ?? 'koukoku.sqlite'
+  }
+
+  async appendLog(message: Log | Notice | Speech, timestamp: number, id?: string): Promise<string> {
+    const rowid = /^\d+$/.test(id ?? '') ? Number(id) : null
+    const { lastInsertRowid } = this.#db.prepare('INSERT INTO logs (id, message, timestamp) VALUES (?, ?, ?)').run(rowid, JSON.stringify(message), timestamp)
+    return `${lastInsertRowid}`
+  }
+
+  async connect(): Promise<void> {
+    const { DatabaseSync } = await import('node:sqlite')
+    this.#db = new DatabaseSync(this.#path)
+    this.#db.exec(schema)
+  }
+
+  async deadLetters(): Promise<OutboxEntry[]> {
+    return this.#all<{ entry: string }>('SELECT entry FROM dead_letters ORDER BY sequence DESC').map(parseEntry).filter(isOutboxEntry)
+  }
+
+  async deleteKeyword(name: string): Promise<boolean> {
+    return 0 < this.#run('DELETE FROM keywords WHERE name = ?', name)
+  }
+
+  async findKeywords(...names: string[]): Promise<string[]> {
+    const statement = this.#db.prepare('SELECT value FROM keywords WHERE name = ?')
+    return names.map((name: string) => (statement.get(name) as { value: string } | undefined)?.value)
+  }
+
+  async keywords(): Promise<Record<string, string>> {
+    const rows = this.#all<{ name: string, value: string }>('SELECT name, value FROM keywords')
+    return Object.fromEntries(rows.map((row: { name: string, value: string }) => [row.name, row.value]))
+  }
+
+  async loadSession(): Promise<Buffer | undefined> {
+    const row = this.#db.prepare('SELECT data FROM session WHERE id = 1').get() as { data: Uint8Array } | undefined
+    if (row)
+      return Buffer.from(row.data)
+  }
+
+  async oldestLogTimestamp(): Promise<number | undefined> {
+    const row = this.#db.prepare('SELECT MIN(timestamp) AS timestamp FROM logs').get() as { timestamp: number | null }
+    return row.timestamp ?? undefined
+  }
+
+  async outboxEntries(): Promise<OutboxEntry[]> {
+    return this.#all<{ entry: string }>('SELECT entry FROM outbox').map(parseEntry).filter(isOutboxEntry)
+  }
+
+  async purgeDeadLetters(): Promise<boolean> {
+    return 0 < this.#run('DELETE FROM dead_letters')
+  }
+
+  async pushDeadLetter(entry: OutboxEntry): Promise<void> {
+    this.#run('INSERT INTO dead_letters (id, entry) VALUES (?, ?)', entry.id, JSON.stringify(entry))
+  }
+
+  async putOutboxEntry(entry: OutboxEntry): Promise<void> {
+    this.#run('INSERT OR REPLACE INTO outbox (id, entry) VALUES (?, ?)', entry.id, JSON.stringify(entry))
+  }
+
+  async queryLogs(range: TimeRange, count?: number): Promise<LogOrSpeechWithTimestamp[]> {
+    const { max, min } = range
+    const rows = this.#all<LogRow>(
+      'SELECT id, message, timestamp FROM logs WHERE ? <= timestamp AND timestamp <= ? ORDER BY timestamp DESC, id DESC LIMIT ?',
+      min === '-' ? Number.MIN_SAFE_INTEGER : min,
+      max === '+' ? Number.MAX_SAFE_INTEGER : max,
+      count ?? -1
+    )
+    return rows.map(convertRowToItem).filter(
+      (value: LogOrSpeechWithTimestamp) => isRedisStreamItemLogOrSpeechOrNotice(value.item)
+    )
+  }
+
+  async registerKeyword(name: string, value: string): Promise<boolean> {
+    return 0 < this.#run('INSERT OR IGNORE INTO keywords (name, value) VALUES (?, ?)', name, value)
+  }
+
+  async removeDeadLetter(id: string): Promise<boolean> {
+    return 0 < this.#run('DELETE FROM dead_letters WHERE sequence = (SELECT MAX(sequence) FROM dead_letters WHERE id = ?)', id)
+  }
+
+  async removeLogs(ids: string[]): Promise<number> {
+    const statement = this.#db.prepare('DELETE FROM logs WHERE id = ?')
+    return this.#transaction(
+      () => ids.reduce((count: number, id: string) => count + Number(statement.run(Number(id)).changes), 0)
+    )
+  }
+
+  async removeOutboxEntry(id: string): Promise<boolean> {
+    return 0 < this.#run('DELETE FROM outbox WHERE id = ?', id)
+  }
+
+  async saveSession(data: Buffer): Promise<void> {
+    this.#run('INSERT OR REPLACE INTO session (id, data) VALUES (1, ?)', data)
+  }
+
+  async scanLogs(count?: number): Promise<LogOrSpeechWithTimestamp[]> {
+    return this.#all<LogRow>('SELECT id, message, timestamp FROM logs ORDER BY id LIMIT ?', count ?? -1).map(convertRowToItem)
+  }
+
+  async schemaVersion(): Promise<number | undefined> {
+    const row = this.#db.prepare('SELECT value FROM meta WHERE name = ?').get('schema_version') as { value: string } | undefined
+    return parseIntOr(row?.value, undefined)
+  }
+
+  async setSchemaVersion(version: number): Promise<void> {
+    this.#run('INSERT OR REPLACE INTO meta (name, value) VALUES (?, ?)', 'schema_version', `${version}`)
+  }
+
+  async updateLogs(values: LogOrSpeechWithTimestamp[]): Promise<void> {
+    const statement = this.#db.prepare('UPDATE logs SET message = ?, timestamp = ? WHERE id = ?')
+    this.#transaction(
+      () => values.forEach(
+        ({ item, timestamp }: LogOrSpeechWithTimestamp) => statement.run(JSON.stringify(item.message), timestamp, Number(item.id))
+      )
+    )
+  }
+
+  async [Symbol.asyncDispose](): Promise<void> {
+    this.#db?.close()
+    this.#db = undefined
+  }
+}
+
+const convertRowToItem = (row: LogRow) => {
+  const { id, message, timestamp } = row
+  return {
+    item: {
+      id: `${id}`,
+      message: parseJSONOr(message, {}),
+    },
+    timestamp,
+  } as LogOrSpeechWithTimestamp
+}
+
+const hasNodeSqlite = (version: string) => {
+  const [major, minor] = version.split('.').map(Number)
+  return 22 < major || (major === 22 && 5 <= minor)
+}
+
+const parseEntry = (row: { entry: string }): unknown => parseJSONOr(row.entry, undefined)
+
+const schema = `
+CREATE TABLE IF NOT EXISTS logs (id INTEGER PRIMARY KEY AUTOINCREMENT, message TEXT NOT NULL, timestamp INTEGER NOT NULL);
+CREATE INDEX IF NOT EXISTS logs_timestamp ON logs (timestamp);
+CREATE TABLE IF NOT EXISTS keywords (name TEXT PRIMARY KEY, value TEXT NOT NULL);
+CREATE TABLE IF NOT EXISTS session (id INTEGER PRIMARY KEY CHECK (id = 1), data BLOB NOT NULL);
+CREATE TABLE IF NOT EXISTS outbox (id TEXT PRIMARY KEY, entry TEXT NOT NULL);
+CREATE TABLE IF NOT EXISTS meta (name TEXT PRIMARY KEY, value TEXT NOT NULL);
+CREATE TABLE IF NOT EXISTS dead_letters (sequence INTEGER PRIMARY KEY AUTOINCREMENT, id TEXT NOT NULL, entry TEXT NOT NULL);
+`
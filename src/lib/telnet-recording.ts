@@ -0,0 +1,60 @@
+import type {
+  Action,
+  BufferWithTimestamp,
+} from '..'
+
+import {
+  isTelnetRecord,
+} from '..'
+
+import {
+  WriteStream,
+  createReadStream,
+  createWriteStream,
+} from 'fs'
+
+import { createInterface } from 'readline'
+
+export class TelnetRecorder implements AsyncDisposable {
+  readonly #stream: WriteStream
+
+  constructor(path: string) {
+    this.#stream = createWriteStream(path, { flags: 'a' })
+  }
+
+  record(item: BufferWithTimestamp): void {
+    const { timestamp, value } = item
+    this.#stream.write(JSON.stringify({ timestamp, value: value.toString('base64') }) + '\n')
+  }
+
+  async [Symbol.asyncDispose](): Promise<void> {
+    await new Promise((resolve: Action) => this.#stream.end(resolve))
+  }
+}
+
+/**
+ * Reads the chunks recorded by `TelnetRecorder` in the order they were received.
+ */
+export async function* readTelnetRecording(path: string): AsyncGenerator<BufferWithTimestamp> {
+  const lines = createInterface({ crlfDelay: Infinity, input: createReadStream(path) })
+  for await (const line of lines) {
+    const record = line.trim().length ? JSON.parse(line) : undefined
+    if (isTelnetRecord(record))
+      yield { timestamp: record.timestamp, value: Buffer.from(record.value, 'base64') }
+  }
+}
+
+/**
+ * Reads the recorded chunks, waiting between them as long as the original intervals divided by `speed`.
+ * A `speed` of zero yields all chunks without waiting.
+ */
+export async function* replayTelnetRecording(path: string, speed: number): AsyncGenerator<BufferWithTimestamp> {
+  const last = {} as { timestamp?: number }
+  for await (const item of readTelnetRecording(path)) {
+    const interval = 0 < speed ? (item.timestamp - (last.timestamp ?? item.timestamp)) / speed : 0
+    if (0 < interval)
+      await new Promise<void>((resolve: Action) => setTimeout(resolve, interval))
+    last.timestamp = item.timestamp
+    yield item
+  }
+}
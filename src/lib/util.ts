@@ -31,11 +31,25 @@ export const formatDateTimeToFullyQualifiedString = (target: Date): string => {
   }
 }
 
+export const parseFloatOr = <T>(text: string, defaultValue: T): T | number => {
+  const c = parseFloat(text)
+  return isNaN(c) ? defaultValue : c
+}
+
 export const parseIntOr = <T>(text: string, defaultValue: T, radix?: number): T | number => {
   const c = parseInt(text, radix)
   return isNaN(c) ? defaultValue : c
 }
 
+export const parseJSONOr = <T>(text: string, defaultValue: T): T | unknown => {
+  try {
+    return JSON.parse(text)
+  }
+  catch {
+    return defaultValue
+  }
+}
+
 export const passThrough = <T>(value: T) => value
 
 export const sequentialNumbers = (length: number, offset: number = 0) => [...new Array(length)].map(
@@ -0,0 +1,56 @@
+import type {
+  WordFrequency,
+} from '..'
+
+/**
+ * Counts the words in texts, which are split by `Intl.Segmenter` so that Japanese texts are split into words as well.
+ * URLs, numbers, single characters, short hiragana-only words such as particles, and the stopwords are not counted.
+ */
+export class WordCounter {
+  readonly #counts = new Map<string, number>()
+  readonly #segmenter = new Intl.Segmenter('ja', { granularity: 'word' })
+  readonly #stopwords: ReadonlySet<string>
+  #total = 0
+
+  #isCounted(word: string): boolean {
+    return isMeaningful(word) && !this.#stopwords.has(word)
+  }
+
+  constructor(stopwords: ReadonlySet<string>) {
+    this.#stopwords = stopwords
+  }
+
+  /**
+   * The number of the counted words including duplicates.
+   */
+  get total(): number {
+    return this.#total
+  }
+
+  add(text: string): void {
+    const normalized = text.replaceAll(urlRE, ' ').normalize('NFKC').toLowerCase()
+    for (const { isWordLike, segment } of this.#segmenter.segment(normalized))
+      if (isWordLike && this.#isCounted(segment)) {
+        this.#counts.set(segment, (this.#counts.get(segment) ?? 0) + 1)
+        this.#total++
+      }
+  }
+
+  /**
+   * Returns the `count` most frequent words in descending order of their frequencies.
+   */
+  top(count: number): WordFrequency[] {
+    return [...this.#counts]
+      .sort(descendingByCount)
+      .slice(0, count)
+      .map(([word, count]: [string, number]) => ({ count, word }))
+  }
+}
+
+const descendingByCount = (lhs: [string, number], rhs: [string, number]) => rhs[1] - lhs[1]
+
+const isMeaningful = (word: string) => 1 < [...word].length && !meaninglessRE.test(word)
+
+const meaninglessRE = /^(\d+|[\p{scx=Hiragana}ー]{1,2})$/u
+
+const urlRE = /\bhttps?:\/\/\S+/g
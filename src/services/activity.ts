@@ -0,0 +1,141 @@
+import type {
+  CommandService,
+  LogOrSpeechWithTimestamp,
+} from '..'
+
+import {
+  Injectable,
+  LogService,
+  SpeechService,
+  dateTimePattern,
+  formatDateTimeRange,
+  interpretAsDateOr,
+  isBotOrTimeSignal,
+  isRedisStreamItemLog,
+  isRedisStreamItemLogOrSpeech,
+  twoDigitString,
+} from '..'
+
+interface ActivityStats {
+  daily: Map<string, number>
+  hourly: number[]
+  lines: number
+  speeches: number
+  weekly: number[]
+}
+
+/**
+ * Reports when the chat is alive with the `統計` command, i.e. the distributions of messages by hour of day and by weekday,
+ * the busiest days, and the numbers of chat lines and speeches, as text histograms in a speech.
+ * The period is this week unless `今日`, `今週`, `今月` or `since` and `until` is given.
+ * The logs are read in batches, so that a long period does not have to be loaded into memory at once.
+ */
+@Injectable({
+  DependsOn: [
+    LogService,
+    SpeechService,
+  ]
+})
+export class ActivityService implements CommandService {
+  readonly #logService: LogService
+  readonly #regexp = new RegExp(String.raw`^統計(\s+((?<command>--help)|(?<period>今日|今週|今月)|(since\s?(?<since>${dateTimePattern}))?(\s?until\s?(?<until>${dateTimePattern}))?))?$`, 'i')
+  readonly #speechService: SpeechService
+
+  async #report(groups: Record<string, string | undefined>): Promise<void> {
+    const { period, since, until } = groups
+    const min = interpretAsDateOr(since ?? period ?? [undefined, '今週'][+(until === undefined)], '-')
+    const max = interpretAsDateOr(until, '+')
+    const range = formatDateTimeRange(min, max) ?? '{未指定}'
+    const stats = await this.#tally(max, min)
+    console.log(`[activity] ${range}, ${stats.lines} lines and ${stats.speeches} speeches`)
+    await this.#speechService.create(renderActivity(range, stats).join('\n'))
+  }
+
+  async #tally(max: number | '+', min: number | '-'): Promise<ActivityStats> {
+    const stats = emptyActivityStats()
+    for await (const values of this.#logService.batches(max, min))
+      values.filter(isCounted).reduce(countActivity, stats)
+    return stats
+  }
+
+  constructor(
+    logService: LogService,
+    speechService: SpeechService
+  ) {
+    this.#logService = logService
+    this.#speechService = speechService
+  }
+
+  async execute(matched: RegExpMatchArray): Promise<void> {
+    const { command } = matched.groups
+    if (command) {
+      const name = command.slice(2).toLowerCase()
+      await this.#speechService.createFromFile(`templates/activity/${name}.txt`)
+    }
+    else
+      await this.#report(matched.groups)
+  }
+
+  match(message: string): RegExpMatchArray {
+    return message.match(this.#regexp)
+  }
+
+  async start(): Promise<void> {
+  }
+
+  async [Symbol.asyncDispose](): Promise<void> {
+  }
+}
+
+const barOf = (value: number, max: number) => '■'.repeat(Math.round(value / Math.max(max, 1) * barWidth))
+
+const barWidth = 20
+
+const countActivity = (stats: ActivityStats, value: LogOrSpeechWithTimestamp): ActivityStats => {
+  const date = new Date(value.timestamp)
+  const day = [date.getFullYear(), ...[date.getMonth() + 1, date.getDate()].map(twoDigitString)].join('/')
+  stats.daily.set(day, (stats.daily.get(day) ?? 0) + 1)
+  stats.hourly[date.getHours()]++
+  stats.weekly[date.getDay()]++
+  isRedisStreamItemLog(value.item) ? stats.lines++ : stats.speeches++
+  return stats
+}
+
+const descendingByCount = (lhs: [string, number], rhs: [string, number]) => rhs[1] - lhs[1]
+
+const emptyActivityStats = (): ActivityStats => ({
+  daily: new Map<string, number>(),
+  hourly: new Array<number>(24).fill(0),
+  lines: 0,
+  speeches: 0,
+  weekly: new Array<number>(7).fill(0),
+})
+
+const isCounted = (value: LogOrSpeechWithTimestamp) => isRedisStreamItemLogOrSpeech(value.item) && !isBotOrTimeSignal(value.item.message.body)
+
+const renderActivity = (range: string, stats: ActivityStats): string[] => {
+  const { daily, hourly, lines, speeches, weekly } = stats
+  const busiest = [...daily].sort(descendingByCount).slice(0, 5)
+  return [
+    `[Bot] 範囲:'${range}' の発言状況`,
+    `発言 ${lines + speeches} 件 (チャット ${lines} 件, 演説 ${speeches} 件)`,
+    '',
+    '時間帯別',
+    ...renderHistogram(hourly.map((count: number, hour: number) => [`${twoDigitString(hour)}時`, count])),
+    '',
+    '曜日別',
+    ...renderHistogram(weekly.map((count: number, day: number) => [weekdays[day], count])),
+    '',
+    '発言の多かった日',
+    ...busiest.map(([day, count]: [string, number]) => `${day} (${weekdays[new Date(day).getDay()]}) ${count} 件`),
+    '',
+    '※[Bot]および[時報]で始まる発言は除外しています。',
+  ]
+}
+
+const renderHistogram = (entries: [string, number][]) => {
+  const max = Math.max(...entries.map(([, count]: [string, number]) => count))
+  return entries.map(([label, count]: [string, number]) => `${label} ${barOf(count, max)} ${count}`)
+}
+
+const weekdays = '日月火水木金土'
@@ -2,6 +2,7 @@ import type {
   AsyncAction,
   CommandService,
   Log,
+  Notice,
   Service,
   Speech,
 } from '..'
@@ -34,6 +35,7 @@ export class BotService implements Service {
   readonly #resolver: DependencyResolver
   readonly #userKeywordService: UserKeywordService
   readonly #webService: WebService
+  #lastNotice: string | undefined
 
   #findHandler(log: Log, rawMessage: string): AsyncAction {
     const found = {} as { matched: RegExpMatchArray }
@@ -41,7 +43,7 @@ export class BotService implements Service {
       (service: CommandService) => !!(found.matched ??= service.match(log.body))
     )
     return service
-      ? service.execute.bind(service, found.matched, rawMessage)
+      ? service.execute.bind(service, found.matched, rawMessage, log)
       : this.#userKeywordService.test.bind(this.#userKeywordService, log)
   }
 
@@ -55,6 +57,18 @@ export class BotService implements Service {
     }
   }
 
+  /**
+   * Stores and broadcasts a notice unless it has the same text as the last one,
+   * e.g. the banner which the server sends again on every reconnection.
+   */
+  async #notice(notice: Notice, timestamp: number): Promise<void> {
+    if (notice.body !== this.#lastNotice) {
+      this.#lastNotice = notice.body
+      const item = await this.#logService.prepend(notice, timestamp)
+      await this.#webService.broadcast(item, timestamp)
+    }
+  }
+
   async #speech(value: Omit<Speech, 'hash'>, rawMessage: string, timestamp: number | undefined): Promise<void> {
     const sha256 = createHash('sha256')
     sha256.update(rawMessage)
@@ -76,6 +90,7 @@ export class BotService implements Service {
     this.#userKeywordService = userKeywordService
     this.#webService = webService
     telnetClientService.on('message', this.#message.bind(this))
+    telnetClientService.on('notice', this.#notice.bind(this))
     telnetClientService.on('speech', this.#speech.bind(this))
   }
 
@@ -4,22 +4,22 @@ import type {
 
 import {
   Injectable,
-  KoukokuProxyService,
+  OutboundQueueService,
 } from '..'
 
 @Injectable({
   DependsOn: [
-    KoukokuProxyService,
+    OutboundQueueService,
   ]
 })
 export class CalculationService implements CommandService {
-  readonly #proxyService: KoukokuProxyService
+  readonly #outboundQueueService: OutboundQueueService
   readonly #regexp = /^計算\s(?<expr>[πEIPaceginopstx\d\s.+\-*/%()]+)$/
 
   constructor(
-    proxyService: KoukokuProxyService
+    outboundQueueService: OutboundQueueService
   ) {
-    this.#proxyService = proxyService
+    this.#outboundQueueService = outboundQueueService
   }
 
   async execute(matched: RegExpMatchArray): Promise<void> {
@@ -35,10 +35,10 @@ export class CalculationService implements CommandService {
       const f = new Function(...args)
       const value = f(Math.PI, Math.E, Math.cos, Math.exp, Math.log, Math.sin, Math.tan, Math.PI)
       console.log(`[calc] \x1b[33m${value}\x1b[m`)
-      await this.#proxyService.post(`[Bot] 計算結果は${value}です`)
+      await this.#outboundQueueService.post(`[Bot] 計算結果は${value}です`)
     }
     catch (reason: unknown) {
-      await this.#proxyService.post(`[Bot] 計算エラー, ${reason instanceof Error ? reason.message : reason}`)
+      await this.#outboundQueueService.post(`[Bot] 計算エラー, ${reason instanceof Error ? reason.message : reason}`)
     }
   }
 
@@ -1,105 +1,149 @@
 import {
   Injectable,
+  MemoryStorage,
+  Migrator,
+  RedisStorage,
+  SqliteStorage,
+  storageBackends,
 } from '..'
 
 import type {
-  RedisStreamItem,
+  Log,
+  LogOrSpeechWithTimestamp,
+  Notice,
+  OutboxEntry,
   Service,
+  Speech,
+  Storage,
+  StorageBackend,
+  TimeRange,
 } from '..'
 
-import type { RedisClientType } from '@redis/client'
-import type { RedisCommandArgument } from '@redis/client/dist/lib/commands'
-import { createClient } from '@redis/client'
-
+/**
+ * Persists the data of the bot through the storage chosen by `STORAGE_BACKEND`,
+ * i.e. `redis` (default), `sqlite` or `memory`.
+ * The schema of the stored logs is upgraded by `npm run migrate`.
+ */
 @Injectable()
-export class DatabaseService implements Service {
-  readonly #client: RedisClientType
+export class DatabaseService implements Service, Storage {
+  readonly #backend: StorageBackend
+  readonly #storage: Storage
 
   constructor() {
-    this.#client = createClient(
-      {
-        pingInterval: 15000,
-        url: process.env.REDIS_URL,
-      }
-    )
+    const { STORAGE_BACKEND } = process.env
+    this.#backend = storageBackends.includes(STORAGE_BACKEND as StorageBackend) ? STORAGE_BACKEND as StorageBackend : 'redis'
+    this.#storage = storageFactories[this.#backend]()
   }
 
-  get(key: RedisCommandArgument): Promise<string> {
-    return this.#client.get(key)
+  get backend(): StorageBackend {
+    return this.#backend
   }
 
-  async hDel(key: RedisCommandArgument, field: RedisCommandArgument): Promise<boolean> {
-    const number = await this.#client.hDel(key, field)
-    return 0 < number
+  appendLog(message: Log | Notice | Speech, timestamp: number, id?: string): Promise<string> {
+    return this.#storage.appendLog(message, timestamp, id)
   }
 
-  hGetAll(key: RedisCommandArgument): Promise<Record<string, string>> {
-    return this.#client.hGetAll(key)
+  connect(): Promise<void> {
+    return this.#storage.connect()
   }
 
-  hKeys(key: RedisCommandArgument): Promise<string[]> {
-    return this.#client.hKeys(key)
+  deadLetters(): Promise<OutboxEntry[]> {
+    return this.#storage.deadLetters()
   }
 
-  hSetNX(key: RedisCommandArgument, field: RedisCommandArgument, value: RedisCommandArgument): Promise<boolean> {
-    return this.#client.hSetNX(key, field, value)
+  deleteKeyword(name: string): Promise<boolean> {
+    return this.#storage.deleteKeyword(name)
   }
 
-  hmGet(key: RedisCommandArgument, ...fields: RedisCommandArgument[]): Promise<string[]> {
-    return this.#client.hmGet(key, fields)
+  findKeywords(...names: string[]): Promise<string[]> {
+    return this.#storage.findKeywords(...names)
   }
 
-  set(key: RedisCommandArgument, value: RedisCommandArgument): Promise<string> {
-    return this.#client.set(key, value)
+  keywords(): Promise<Record<string, string>> {
+    return this.#storage.keywords()
   }
 
-  async start(): Promise<void> {
-    await this.#client.connect()
+  loadSession(): Promise<Buffer | undefined> {
+    return this.#storage.loadSession()
+  }
+
+  oldestLogTimestamp(): Promise<number | undefined> {
+    return this.#storage.oldestLogTimestamp()
+  }
+
+  outboxEntries(): Promise<OutboxEntry[]> {
+    return this.#storage.outboxEntries()
+  }
+
+  purgeDeadLetters(): Promise<boolean> {
+    return this.#storage.purgeDeadLetters()
+  }
+
+  pushDeadLetter(entry: OutboxEntry): Promise<void> {
+    return this.#storage.pushDeadLetter(entry)
+  }
+
+  putOutboxEntry(entry: OutboxEntry): Promise<void> {
+    return this.#storage.putOutboxEntry(entry)
+  }
+
+  queryLogs(range: TimeRange, count?: number): Promise<LogOrSpeechWithTimestamp[]> {
+    return this.#storage.queryLogs(range, count)
   }
 
-  xAdd(_key: RedisCommandArgument, _message: Record<string, string>): Promise<string>
-  xAdd(_key: RedisCommandArgument, _id: string, _message: Record<string, string>): Promise<string>
-  async xAdd(key: RedisCommandArgument, arg1: Record<string, string> | string, arg2?: Record<string, string>): Promise<string> {
-    return await (
-      typeof arg1 === 'string'
-        ? this.#client.xAdd(key, arg1, arg2)
-        : this.#client.xAdd(key, '*', arg1)
-    )
+  registerKeyword(name: string, value: string): Promise<boolean> {
+    return this.#storage.registerKeyword(name, value)
   }
 
-  async xRange<T extends Record<string, string>>(key: RedisCommandArgument, start: RedisCommandArgument, end: RedisCommandArgument, count?: number): Promise<RedisStreamItem<T>[]> {
-    const opts = {} as { COUNT: number }
-    if (typeof count === 'number')
-      opts.COUNT = count
-    const response = await this.#client.xRange(key, start, end, opts)
-    return response as RedisStreamItem<T>[]
+  removeDeadLetter(id: string): Promise<boolean> {
+    return this.#storage.removeDeadLetter(id)
   }
 
-  async xRevRange<T extends Record<string, string>>(key: RedisCommandArgument, start: RedisCommandArgument, end: RedisCommandArgument, count?: number): Promise<RedisStreamItem<T>[]> {
-    const opts = {} as { COUNT: number }
-    if (typeof count === 'number')
-      opts.COUNT = count
-    const response = await this.#client.xRevRange(key, start, end, opts)
-    return response as RedisStreamItem<T>[]
+  removeLogs(ids: string[]): Promise<number> {
+    return this.#storage.removeLogs(ids)
   }
 
-  zAdd(key: RedisCommandArgument, score: number, value: string): Promise<number> {
-    return this.#client.zAdd(key, { score, value })
+  removeOutboxEntry(id: string): Promise<boolean> {
+    return this.#storage.removeOutboxEntry(id)
   }
 
-  zCard(key: RedisCommandArgument): Promise<number> {
-    return this.#client.zCard(key)
+  saveSession(data: Buffer): Promise<void> {
+    return this.#storage.saveSession(data)
   }
 
-  zRangeByScoreWithScores(key: RedisCommandArgument, range: { max: number, min: number }): Promise<{ score: number, value: string }[]> {
-    return this.#client.zRangeByScoreWithScores(key, range.min, range.max)
+  scanLogs(count?: number): Promise<LogOrSpeechWithTimestamp[]> {
+    return this.#storage.scanLogs(count)
   }
 
-  zRangeWithScores(key: RedisCommandArgument, range: { max: number, min: number }): Promise<{ score: number, value: string }[]> {
-    return this.#client.zRangeWithScores(key, range.min, range.max)
+  schemaVersion(): Promise<number | undefined> {
+    return this.#storage.schemaVersion()
+  }
+
+  setSchemaVersion(version: number): Promise<void> {
+    return this.#storage.setSchemaVersion(version)
+  }
+
+  /**
+   * Connects to the storage, and refuses to start if its schema is outdated.
+   */
+  async start(): Promise<void> {
+    await this.#storage.connect()
+    const error = await new Migrator(this.#storage).check()
+    if (error)
+      throw error
+  }
+
+  updateLogs(values: LogOrSpeechWithTimestamp[]): Promise<void> {
+    return this.#storage.updateLogs(values)
   }
 
   async [Symbol.asyncDispose](): Promise<void> {
-    await this.#client.disconnect()
+    await this.#storage[Symbol.asyncDispose]()
   }
 }
+
+const storageFactories = {
+  memory: () => new MemoryStorage(),
+  redis: () => new RedisStorage(),
+  sqlite: () => new SqliteStorage(),
+} as Record<StorageBackend, () => Storage>
@@ -7,8 +7,7 @@ import type {
 import {
   DeepL,
   Injectable,
-  KoukokuProxyService,
-  SJIS,
+  OutboundQueueService,
   SpeechService,
   bindToReadAsJSON,
   isDeepLError,
@@ -18,13 +17,13 @@ import { request as createSecureRequest } from 'https'
 
 @Injectable({
   DependsOn: [
-    KoukokuProxyService,
+    OutboundQueueService,
     SpeechService,
   ]
 })
 export class DeepLService implements CommandService {
   readonly #languageMap = new DeepL.LanguageMap()
-  readonly #proxyService: KoukokuProxyService
+  readonly #outboundQueueService: OutboundQueueService
   readonly #regexp = /^翻訳\s((?<command>--(help|lang))|((?<lang>bg|cs|da|de|e[lnst]|fi|fr|hu|id|[ilp]t|ja|ko|lv|nb|[nps]l|ro|ru|sk|sv|tr|uk|zh)\s)?(?<text>[\S\s]+))$/i
   readonly #speechService: SpeechService
 
@@ -39,8 +38,7 @@ export class DeepLService implements CommandService {
       else
         for (const t of r.translations) {
           const from = this.#languageMap.getName(t.detected_source_language)
-          const escaped = await SJIS.escape(t.text.replaceAll(/\r?\n/g, '').trim())
-          await this.#proxyService.post(`[Bot] (${from}から${to}翻訳) ${escaped}`)
+          await this.#outboundQueueService.post(`[Bot] (${from}から${to}翻訳) ${t.text.replaceAll(/\r?\n/g, '').trim()}`)
         }
     }
     else
@@ -52,15 +50,15 @@ export class DeepLService implements CommandService {
   }
 
   constructor(
-    proxyService: KoukokuProxyService,
+    outboundQueueService: OutboundQueueService,
     speechService: SpeechService
   ) {
-    this.#proxyService = proxyService
+    this.#outboundQueueService = outboundQueueService
     this.#speechService = speechService
   }
 
   async complain(error: DeepLError | Error): Promise<void> {
-    await this.#proxyService.post(`[Bot] 翻訳エラー, ${error.message}`)
+    await this.#outboundQueueService.post(`[Bot] 翻訳エラー, ${error.message}`)
   }
 
   async execute(matched: RegExpMatchArray): Promise<void> {
@@ -0,0 +1,148 @@
+import type {
+  DeliveryRecord,
+  DeliveryStats,
+  Log,
+  OutboxEntry,
+  Service,
+} from '..'
+
+import {
+  Injectable,
+  OutboxService,
+  TelnetClientService,
+  parseIntOr,
+} from '..'
+
+import { EventEmitter } from 'events'
+
+interface Echo {
+  text: string
+  timestamp: number
+}
+
+/**
+ * Correlates every chat post delivered through the outbox with the echo the server sends back,
+ * i.e. the message marked with `〈＊あなた様＊〉`.
+ * Posts which are not echoed within `DELIVERY_TIMEOUT` milliseconds are marked as failed.
+ */
+@Injectable({
+  DependsOn: [
+    OutboxService,
+    TelnetClientService,
+  ]
+})
+export class DeliveryTrackerService implements Service {
+  readonly #echoes = [] as Echo[]
+  readonly #eventEmitter = new EventEmitter()
+  readonly #maxRecords: number
+  readonly #pending = [] as DeliveryRecord[]
+  readonly #records = [] as DeliveryRecord[]
+  readonly #timeout: number
+  readonly #timerIds = new Map<string, NodeJS.Timeout>()
+  readonly #totals = { confirmed: 0, failed: 0 }
+
+  async #acceptDelivered(entry: OutboxEntry, _response: unknown, startedAt: number): Promise<void> {
+    if (entry.payload.kind === 'say') {
+      const record = { id: entry.id, postedAt: startedAt, state: 'pending', text: normalize(entry.payload.text) } as DeliveryRecord
+      const echo = takeFirst(this.#echoes, (echo: Echo) => echo.text === record.text)
+      echo ? this.#confirm(record, echo.timestamp) : this.#track(record)
+    }
+  }
+
+  async #acceptMessage(log: Log, _rawMessage: string, timestamp: number): Promise<void> {
+    if (log.self) {
+      const text = normalize(log.body)
+      const record = takeFirst(this.#pending, (record: DeliveryRecord) => record.text === text)
+      record ? this.#confirm(record, timestamp) : this.#echoes.push({ text, timestamp })
+      this.#forgetEchoes(timestamp - this.#timeout)
+    }
+  }
+
+  #confirm(record: DeliveryRecord, timestamp: number): void {
+    record.confirmedAt = timestamp
+    record.latency = Math.max(timestamp - record.postedAt, 0)
+    record.state = 'confirmed'
+    this.#finish(record)
+  }
+
+  #expire(record: DeliveryRecord): void {
+    takeFirst(this.#pending, (pending: DeliveryRecord) => pending === record)
+    record.state = 'failed'
+    console.error(`[delivery] \x1b[31mno echo\x1b[m for '${record.text}' within ${this.#timeout} ms`)
+    this.#finish(record)
+  }
+
+  #finish(record: DeliveryRecord): void {
+    clearTimeout(this.#timerIds.get(record.id))
+    this.#timerIds.delete(record.id)
+    this.#totals[record.state as 'confirmed' | 'failed']++
+    this.#records.push(record)
+    this.#records.splice(0, Math.max(this.#records.length - this.#maxRecords, 0))
+    this.#eventEmitter.emit(record.state, { ...record })
+  }
+
+  #forgetEchoes(threshold: number): void {
+    const index = this.#echoes.findIndex((echo: Echo) => threshold <= echo.timestamp)
+    this.#echoes.splice(0, index < 0 ? this.#echoes.length : index)
+  }
+
+  #track(record: DeliveryRecord): void {
+    this.#pending.push(record)
+    this.#timerIds.set(record.id, setTimeout(this.#expire.bind(this, record), this.#timeout))
+  }
+
+  constructor(
+    outboxService: OutboxService,
+    telnetClientService: TelnetClientService
+  ) {
+    const { DELIVERY_MAX_RECORDS, DELIVERY_TIMEOUT } = process.env
+    this.#maxRecords = parseIntOr(DELIVERY_MAX_RECORDS, 100)
+    this.#timeout = parseIntOr(DELIVERY_TIMEOUT, 30000)
+    outboxService.on('delivered', this.#acceptDelivered.bind(this))
+    telnetClientService.on('message', this.#acceptMessage.bind(this))
+  }
+
+  /**
+   * The most recent records which have been either confirmed or failed, in chronological order.
+   */
+  get records(): DeliveryRecord[] {
+    return this.#records.map((record: DeliveryRecord) => ({ ...record }))
+  }
+
+  get stats(): DeliveryStats {
+    const latencies = this.#records.filter(isConfirmed).map((record: DeliveryRecord) => record.latency)
+    const sum = latencies.reduce((lhs: number, rhs: number) => lhs + rhs, 0)
+    return {
+      ...this.#totals,
+      latency: {
+        average: [undefined, Math.round(sum / latencies.length)][+(0 < latencies.length)],
+        last: latencies.at(-1),
+        maximum: [undefined, Math.max(...latencies)][+(0 < latencies.length)],
+      },
+      pending: this.#pending.length,
+    }
+  }
+
+  on(eventName: 'confirmed' | 'failed', listener: (_record: DeliveryRecord) => void): this {
+    this.#eventEmitter.on(eventName, listener)
+    return this
+  }
+
+  async start(): Promise<void> {
+  }
+
+  async [Symbol.asyncDispose](): Promise<void> {
+    this.#timerIds.forEach(clearTimeout)
+    this.#timerIds.clear()
+    this.#eventEmitter.removeAllListeners()
+  }
+}
+
+const isConfirmed = (record: DeliveryRecord) => record.state === 'confirmed'
+
+const normalize = (text: string) => text.replaceAll(/\s+/g, ' ').trim()
+
+const takeFirst = <T>(items: T[], predicate: (_item: T) => boolean): T | undefined => {
+  const index = items.findIndex(predicate)
+  return index < 0 ? undefined : items.splice(index, 1).at(0)
+}
@@ -0,0 +1,172 @@
+import type {
+  LogOrSpeechWithTimestamp,
+  PeriodicPeriod,
+  PeriodicSchedule,
+  Service,
+  TimeRange,
+  WordFrequency,
+} from '..'
+
+import {
+  Injectable,
+  LogService,
+  PeriodicSchedulerService,
+  SpeechService,
+  TallyService,
+  abbreviateHostName,
+  formatDateTimeRange,
+  interpretAsDateOr,
+  isBotOrTimeSignal,
+  isRedisStreamItemLogOrSpeech,
+  isRedisStreamItemSpeech,
+  passThrough,
+  twoDigitString,
+} from '..'
+
+interface Digest {
+  hosts: Map<string, number>
+  lines: number
+  speeches: string[]
+}
+
+type DigestName = '昨日' | '先週'
+
+interface DigestSchedule {
+  name: DigestName
+  period: PeriodicPeriod
+  weekday?: number
+}
+
+/**
+ * Posts a digest of the previous day at `DIGEST_DAILY_AT` and of the previous week at `DIGEST_WEEKLY_AT` as a speech,
+ * i.e. the numbers of chat lines, clients and speeches, the top speakers, the first lines of the speeches and the most frequent words.
+ * A time is given as `HH:mm` optionally preceded by a weekday, and the digest is not posted if it is unset or in any other form.
+ */
+@Injectable({
+  DependsOn: [
+    LogService,
+    PeriodicSchedulerService,
+    SpeechService,
+    TallyService,
+  ]
+})
+export class DigestService implements Service {
+  readonly #logService: LogService
+  readonly #scheduleIds: number[]
+  readonly #schedulerService: PeriodicSchedulerService
+  readonly #speechService: SpeechService
+  readonly #tallyService: TallyService
+
+  async #collect(range: TimeRange): Promise<Digest> {
+    const digest = { hosts: new Map<string, number>(), lines: 0, speeches: [] as string[] }
+    for await (const values of this.#logService.batches(range.max, range.min))
+      values.filter(isCounted).forEach(countItem.bind(undefined, digest))
+    return digest
+  }
+
+  async #post(_schedule: PeriodicSchedule, digestSchedule: DigestSchedule): Promise<void> {
+    const { name, weekday } = digestSchedule
+    if (weekday === undefined || weekday === new Date().getDay()) {
+      const [min, next] = periods[name].map((period: string) => interpretAsDateOr(period, 0))
+      const range = { max: next - 1, min }
+      const digest = await this.#collect(range)
+      console.log(`[digest] ${name}, ${digest.lines} lines and ${digest.speeches.length} speeches`)
+      if (digest.lines + digest.speeches.length) {
+        const { words } = await this.#tallyService.wordFrequencies(range, maxWords)
+        await this.#speechService.create(renderDigest(name, range, digest, words).join('\n'))
+      }
+    }
+  }
+
+  constructor(
+    logService: LogService,
+    schedulerService: PeriodicSchedulerService,
+    speechService: SpeechService,
+    tallyService: TallyService
+  ) {
+    const { DIGEST_DAILY_AT, DIGEST_WEEKLY_AT } = process.env
+    const schedules = [
+      parseSchedule('昨日', DIGEST_DAILY_AT),
+      parseSchedule('先週', DIGEST_WEEKLY_AT),
+    ].filter(passThrough)
+    this.#logService = logService
+    this.#scheduleIds = schedules.map((schedule: DigestSchedule) => schedulerService.register(this.#post.bind(this), schedule.period, schedule))
+    this.#schedulerService = schedulerService
+    this.#speechService = speechService
+    this.#tallyService = tallyService
+  }
+
+  async start(): Promise<void> {
+  }
+
+  async [Symbol.asyncDispose](): Promise<void> {
+    this.#scheduleIds.forEach(this.#schedulerService.unregister.bind(this.#schedulerService))
+  }
+}
+
+const countItem = (digest: Digest, value: LogOrSpeechWithTimestamp) => {
+  const { item, timestamp } = value
+  const { body, host } = item.message as { body: string, host: string }
+  if (isRedisStreamItemSpeech(item))
+    digest.speeches.push(`${formatTimestamp(timestamp)} ${body.split(/\r?\n/)[0]} ${abbreviateHostName(host)}`)
+  else {
+    digest.hosts.set(host, (digest.hosts.get(host) ?? 0) + 1)
+    digest.lines++
+  }
+}
+
+const descendingByCount = (lhs: [string, number], rhs: [string, number]) => rhs[1] - lhs[1]
+
+const formatTimestamp = (timestamp: number) => {
+  const date = new Date(timestamp)
+  const [month, day, hours, minutes] = [date.getMonth() + 1, date.getDate(), date.getHours(), date.getMinutes()].map(twoDigitString)
+  return `${month}/${day} ${hours}:${minutes}`
+}
+
+const isCounted = (value: LogOrSpeechWithTimestamp) => isRedisStreamItemLogOrSpeech(value.item) && !isBotOrTimeSignal(value.item.message.body)
+
+const maxHosts = 5
+
+const maxWords = 10
+
+const orNone = (lines: string[]) => lines.length ? lines : ['なし']
+
+const parseSchedule = (name: DigestName, text: string | undefined): DigestSchedule | undefined => {
+  const groups = text?.match(scheduleRE)?.groups
+  if (groups) {
+    const { hour, minute, weekday } = groups
+    return {
+      name,
+      period: { hours: [parseInt(hour)], minutes: [parseInt(minute)] },
+      weekday: weekday ? weekdays.indexOf(weekday) : undefined,
+    }
+  }
+}
+
+/**
+ * The names of the beginnings of each digested period and of the one following it, which are interpreted by `interpretAsDateOr`.
+ */
+const periods = {
+  先週: ['先週', '今週'],
+  昨日: ['昨日', '今日'],
+} as Record<DigestName, [string, string]>
+
+const renderDigest = (name: DigestName, range: TimeRange, digest: Digest, words: WordFrequency[]): string[] => [
+  `[Bot] ${name} (${formatDateTimeRange(range.min, range.max)}) のまとめ`,
+  `発言 ${digest.lines} 件, クライアント ${digest.hosts.size} 件, 演説 ${digest.speeches.length} 件`,
+  '',
+  'よく発言したクライアント',
+  ...orNone([...digest.hosts].sort(descendingByCount).slice(0, maxHosts).map(([host, count]: [string, number]) => `${abbreviateHostName(host)} ${count} 回`)),
+  '',
+  '演説',
+  ...orNone([...digest.speeches].reverse()),
+  '',
+  'よく使われた語',
+  ...orNone([words.map(({ count, word }: WordFrequency) => `${word}(${count})`).join(' ')].filter(passThrough)),
+  '',
+  '※[Bot]および[時報]で始まる発言は除外しています。',
+]
+
+const scheduleRE = /^((?<weekday>[日月火水木金土])\s?)?(?<hour>[01]?\d|2[0-3]):(?<minute>[0-5]\d)$/
+
+const weekdays = '日月火水木金土'
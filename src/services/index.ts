@@ -6,11 +6,19 @@ export * from './koukoku-proxy'
 export * from './periodic-scheduler'
 
 // Level 1, Services depend on just independent services
-export * from './calculation'
-export * from './speech'
+export * from './log-archive'
 export * from './telnet-client'
 
 // Level 2
+export * from './outbox'
+
+// Level 3
+export * from './delivery-tracker'
+export * from './outbound-queue'
+export * from './speech'
+
+// Level 4
+export * from './calculation'
 export * from './deepl'
 export * from './help'
 export * from './introduction'
@@ -18,10 +26,15 @@ export * from './log'
 export * from './time-signal'
 export * from './user-keyword'
 
-// Level 3
+// Level 5
+export * from './activity'
 export * from './phi-llm'
+export * from './search'
 export * from './tally'
+
+// Level 6
+export * from './digest'
 export * from './web'
 
-// Level 4
+// Level 7
 export * from './bot'
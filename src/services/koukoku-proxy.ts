@@ -23,7 +23,7 @@ export class KoukokuProxyService implements Service {
 
   #createRequest(method: 'POST' | 'PUT', path: string, headers: OutgoingHttpHeaders = {}): ClientRequest {
     const { env, version } = process
-    const { PROXY_HOST } = env
+    const { PROXY_HOST, PROXY_PORT } = env
     headers.host = PROXY_HOST
     headers['user-agent'] = `Node.js ${version}`
     return createSecureRequest(
@@ -32,7 +32,9 @@ export class KoukokuProxyService implements Service {
         host: PROXY_HOST,
         method,
         path,
+        port: parseIntOr(PROXY_PORT, undefined),
         protocol: 'https:',
+        rejectUnauthorized: !process.argv.includes('--no-reject-unauthorized'),
       }
     )
   }
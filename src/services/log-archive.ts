@@ -0,0 +1,171 @@
+import type {
+  LogOrSpeechWithTimestamp,
+  Service,
+  TimeRange,
+} from '..'
+
+import {
+  DatabaseService,
+  Injectable,
+  PeriodicSchedulerService,
+  parseIntOr,
+  parseJSONOr,
+  twoDigitString,
+} from '..'
+
+import { appendFile, mkdir, readFile, readdir } from 'fs/promises'
+import { gunzipSync, gzipSync } from 'zlib'
+import { join as joinPath } from 'path'
+
+/**
+ * Applies the retention policy given by `LOG_RETENTION_DAYS` and `LOG_RETENTION_COUNT` every hour,
+ * i.e. moves the logs older than that from the storage into daily archives,
+ * which are gzipped JSON Lines files named `YYYY-MM-DD.jsonl.gz` under `LOG_ARCHIVE_PATH`.
+ * Nothing is archived unless either of them is given.
+ * The expired logs are moved `LOG_BATCH_SIZE` (1000 by default) at a time, so that they are never loaded into memory at once.
+ */
+@Injectable({
+  DependsOn: [
+    DatabaseService,
+    PeriodicSchedulerService,
+  ]
+})
+export class LogArchiveService implements Service {
+  readonly #batchSize: number
+  readonly #db: DatabaseService
+  readonly #maxAge?: number
+  readonly #maxCount?: number
+  readonly #path: string
+  readonly #scheduleId: number
+  readonly #schedulerService: PeriodicSchedulerService
+
+  async #apply(): Promise<void> {
+    const cutoff = Math.max(this.#cutoffByAge(), await this.#cutoffByCount())
+    if (-Infinity < cutoff) {
+      const moved = await this.#move(cutoff)
+      if (moved)
+        console.log(`[archive] moved \x1b[33m${moved}\x1b[m logs older than ${new Date(cutoff).toISOString()}`)
+    }
+  }
+
+  async #archive(values: LogOrSpeechWithTimestamp[]): Promise<void> {
+    const days = new Map<string, LogOrSpeechWithTimestamp[]>()
+    for (const value of [...values].reverse()) {
+      const day = dayOf(value.timestamp)
+      days.has(day) ? days.get(day).push(value) : days.set(day, [value])
+    }
+    await mkdir(this.#path, { recursive: true })
+    for (const [day, list] of days) {
+      const lines = list.map((value: LogOrSpeechWithTimestamp) => JSON.stringify(value) + '\n')
+      await appendFile(joinPath(this.#path, `${day}.jsonl.gz`), gzipSync(lines.join('')))
+    }
+  }
+
+  #cutoffByAge(): number {
+    return [-Infinity, Date.now() - this.#maxAge * 86400000][+(this.#maxAge !== undefined)]
+  }
+
+  async #cutoffByCount(): Promise<number> {
+    if (this.#maxCount === undefined)
+      return -Infinity
+    const retained = await this.#db.queryLogs({ max: '+', min: '-' }, this.#maxCount)
+    return [-Infinity, retained.at(-1)?.timestamp][+(retained.length === this.#maxCount)]
+  }
+
+  async #days(max: number, min: number): Promise<string[]> {
+    const names = await readdir(this.#path).catch(() => [] as string[])
+    return names.map((name: string) => name.match(archiveRE)?.groups.day).filter(overlaps(max, min)).sort().reverse()
+  }
+
+  /**
+   * Moves the logs older than `cutoff` into the archives from the newest to the oldest, removing each batch once it is written,
+   * and returns the number of the moved logs.
+   * It stops if a batch is not removed entirely, so as not to archive the rest of it twice.
+   */
+  async #move(cutoff: number): Promise<number> {
+    let moved = 0
+    for (let max = cutoff - 1; ;) {
+      const expired = await this.#db.queryLogs({ max, min: '-' }, this.#batchSize)
+      if (expired.length === 0)
+        return moved
+      await this.#archive(expired)
+      const removed = await this.#db.removeLogs(expired.map((value: LogOrSpeechWithTimestamp) => value.item.id))
+      moved += removed
+      if (removed < expired.length)
+        return moved
+      max = expired.at(-1).timestamp
+    }
+  }
+
+  async #read(day: string): Promise<LogOrSpeechWithTimestamp[]> {
+    const data = await readFile(joinPath(this.#path, `${day}.jsonl.gz`))
+    const lines = gunzipSync(data).toString().split('\n').filter((line: string) => line.length)
+    return lines.map((line: string) => parseJSONOr(line, undefined) as LogOrSpeechWithTimestamp).filter(isArchivedLog)
+  }
+
+  constructor(
+    db: DatabaseService,
+    schedulerService: PeriodicSchedulerService
+  ) {
+    const { LOG_ARCHIVE_PATH, LOG_BATCH_SIZE, LOG_RETENTION_COUNT, LOG_RETENTION_DAYS } = process.env
+    this.#batchSize = parseIntOr(LOG_BATCH_SIZE, 1000)
+    this.#db = db
+    this.#maxAge = parseIntOr(LOG_RETENTION_DAYS, undefined)
+    this.#maxCount = parseIntOr(LOG_RETENTION_COUNT, undefined)
+    this.#path = LOG_ARCHIVE_PATH ?? 'archive'
+    this.#scheduleId = schedulerService.register(this.#apply.bind(this), { minutes: [47] })
+    this.#schedulerService = schedulerService
+  }
+
+  /**
+   * Reads the archived logs within the range, in descending order of their timestamps.
+   * Only the newest `count` ones are read if it is given.
+   */
+  async query(range: TimeRange, count?: number): Promise<LogOrSpeechWithTimestamp[]> {
+    const { max, min } = boundsOf(range)
+    const found = new Map<string, LogOrSpeechWithTimestamp>()
+    const limit = count ?? Infinity
+    for (const day of await this.#days(max, min)) {
+      if (limit <= found.size)
+        break
+      for (const value of (await this.#read(day)).filter(isWithin(max, min)))
+        found.set(value.item.id, value)
+    }
+    return [...found.values()].sort(descendingByTimestamp).slice(0, count)
+  }
+
+  async start(): Promise<void> {
+    await this.#apply()
+  }
+
+  async [Symbol.asyncDispose](): Promise<void> {
+    this.#schedulerService.unregister(this.#scheduleId)
+  }
+}
+
+const archiveRE = /^(?<day>\d{4}-\d{2}-\d{2})\.jsonl\.gz$/
+
+const boundsOf = (range: TimeRange) => ({
+  max: range.max === '+' ? Infinity : range.max,
+  min: range.min === '-' ? -Infinity : range.min,
+})
+
+const dayOf = (timestamp: number): string => {
+  const date = new Date(timestamp)
+  return [date.getFullYear(), ...[date.getMonth() + 1, date.getDate()].map(twoDigitString)].join('-')
+}
+
+const descendingByTimestamp = (lhs: LogOrSpeechWithTimestamp, rhs: LogOrSpeechWithTimestamp) => rhs.timestamp - lhs.timestamp
+
+const isArchivedLog = (value: LogOrSpeechWithTimestamp | undefined): value is LogOrSpeechWithTimestamp => typeof value?.timestamp === 'number' && typeof value.item?.id === 'string'
+
+const isWithin = (max: number, min: number) => (value: LogOrSpeechWithTimestamp) => min <= value.timestamp && value.timestamp <= max
+
+const overlaps = (max: number, min: number) => (day: string | undefined) => {
+  if (day) {
+    const [year, month, date] = day.split('-').map((value: string) => parseInt(value))
+    const since = new Date(year, month - 1, date).getTime()
+    return since <= max && min < new Date(year, month - 1, date + 1).getTime()
+  }
+  return false
+}
@@ -2,20 +2,39 @@ import type {
   CommandService,
   FilterFunction,
   Log,
+  LogCursor,
+  LogDeliveryMode,
+  LogFilter,
   LogOrSpeechWithTimestamp,
+  LogPage,
+  LogRecord,
+  LogRecordPage,
+  Notice,
   RedisStreamItem,
   Speech,
+  TimeRange,
 } from '..'
 
 import {
   DatabaseService,
   Injectable,
-  KoukokuProxyService,
+  LogArchiveService,
+  LogExchange,
+  LogPages,
+  LogReader,
+  OutboundQueueService,
   SpeechService,
   abbreviateHostName,
-  formatDateTimeToFullyQualifiedString,
+  dateTimePattern,
+  formatDateTimeRange,
+  interpretAsDateOr,
+  isBotOrTimeSignal,
+  isKoukokuProxyPutResponse,
   isRedisStreamItemLog,
   isRedisStreamItemLogOrSpeech,
+  isRedisStreamItemNotice,
+  logDeliveryModes,
+  paginate,
   parseIntOr,
   recompose,
   twoDigitString,
@@ -26,87 +45,144 @@ interface ComposingContext {
   message?: string
 }
 
+interface LogDelivery {
+  count: number
+  mode: LogDeliveryMode
+}
+
 @Injectable({
   DependsOn: [
     DatabaseService,
-    KoukokuProxyService,
+    LogArchiveService,
+    OutboundQueueService,
     SpeechService,
   ]
 })
 export class LogService implements CommandService {
+  readonly #chatThreshold: number
   readonly #db: DatabaseService
-  readonly #keyForLog: string
-  readonly #keyForTimestamp: string
-  readonly #proxyService: KoukokuProxyService
-  readonly #regexp = /^(バック)?ログ(\s+((?<command>--help)|(?<count>[1-9]\d*)?(\s?since\s?(?<since>\d+(([-/]\d+){1,2}(\s\d+(:\d+){1,2})?)?))?(\s?until\s?(?<until>\d+(([-/]\d+){1,2}(\s\d+(:\d+){1,2})?)?))?))?$/i
+  readonly #deliverers = {
+    lines: this.#postLines,
+    speech: this.#speak,
+    url: this.#upload,
+  } as Record<LogDeliveryMode, (_items: string[], _summary: string, _note: string) => Promise<void>>
+  readonly #maxLines: Record<LogDeliveryMode, number>
+  readonly #outboundQueueService: OutboundQueueService
+  readonly #pages: LogPages
+  readonly #reader: LogReader
+  readonly #regexp = new RegExp(String.raw`^(バック)?ログ(\s+((?<command>--help)|(?<next>続き|次)|(?<count>[1-9]\d*)?(\s?since\s?(?<since>${dateTimePattern}))?(\s?until\s?(?<until>${dateTimePattern}))?(\s?by\s?(?<by>\S+))?(\s?exclude\s?(?<exclude>\S+))?(\s?as\s?(?<mode>${logDeliveryModes.join('|')}))?))?$`, 'i')
   readonly #speechService: SpeechService
 
-  async #execute(count: string | undefined, rawMessage: string, since: string | undefined, until: string | undefined): Promise<void> {
+  #chooseMode(shown: number): LogDeliveryMode {
+    const index = [shown <= this.#chatThreshold, shown <= this.#maxLines.speech, true].indexOf(true)
+    return logDeliveryModes[index]
+  }
+
+  async #continue(host: string): Promise<void> {
+    const page = this.#pages.next(host)
+    await (page ? this.#deliver(page) : this.#outboundQueueService.post('[Bot] 続きのログはありません'))
+  }
+
+  #deliver(page: LogPage): Promise<void> {
+    const { items, mode, number, pages, subject, total } = page
+    const note = [`(全部で ${total} 件)`, `(全部で ${total} 件, ${number}/${pages} ページ目)`][+(1 < pages)]
+    return this.#deliverers[mode].call(this, items, `${subject} ${items.length} 件のログ`, note)
+  }
+
+  #deliveryOf(count: string | undefined, mode: string | undefined, length: number): LogDelivery {
+    const requested = Math.min(parseIntOr(count, 10), this.#maxLines.url)
+    const chosen = mode?.toLowerCase() as LogDeliveryMode ?? this.#chooseMode(Math.min(requested, length))
+    return { count: Math.min(requested, this.#maxLines[chosen]), mode: chosen }
+  }
+
+  async #execute(groups: Record<string, string | undefined>, rawMessage: string, host: string): Promise<void> {
+    const { by, count, exclude, since, until } = groups
     const end = interpretAsDateOr(since, '-')
     const start = interpretAsDateOr(until, '+')
     const range = formatDateTimeRange(end, start) ?? '{未指定}'
+    const hosts = describeHosts(by, exclude)
     const index = +(since === undefined) * 2 + +(until === undefined)
-    const contents = [] as string[]
-    const last = {} as ComposingContext
-    const filter = except(rawMessage)
-    for (const { item } of await this.query(start, end))
-      isRedisStreamItemLog(item)
-        ? contents.push(...composeLogs(last, item.message, filter))
-        : contents.push(...composeLogsFromSpeech(last, item))
+    const contents = this.compose((await this.query(start, end)).filter(filterByHost(by, exclude)), rawMessage)
     const { length } = contents
-    console.log({ count, end, index, length, range, since, start, until })
+    console.log({ count, end, hosts, index, length, range, since, start, until })
     if (length) {
-      const c = Math.min(parseIntOr(count, 10), 30)
-      await this.#proxyService.post(`[Bot] 範囲:'${range}' に対して ${c} 件のログを表示します (全部で ${length} 件)`)
-      //await this.#speechService.create(sliceItems(contents, c, index === 1).join('\n'))
-      await this.#run(contents, c, index)
+      const delivery = this.#deliveryOf(count, groups.mode, length)
+      const pages = paginate(contents, delivery.count, index === 1)
+      await this.present(host, pages, delivery.mode, `範囲:'${range}'${hosts} に対して`, length)
     }
     else
-      await this.#proxyService.post(`[Bot] 範囲:'${range}' に該当するログがありません`)
+      await this.#outboundQueueService.post(`[Bot] 範囲:'${range}'${hosts} に該当するログがありません`)
   }
 
-  async #query(timestamps: Map<string, number>, count: number | undefined): Promise<LogOrSpeechWithTimestamp[]> {
-    if (timestamps.size) {
-      const sorted = [...timestamps.keys()].sort()
-      const lower = sorted.at(0) ?? '-'
-      const upper = sorted.at(-1) ?? '+'
-      const items = await this.#db.xRevRange(this.#keyForLog, upper, lower, count)
-      return items.filter(hasItemId(timestamps)).sort(descendingById(timestamps)).filter(isRedisStreamItemLogOrSpeech).map(combineItemAndTimestamp(timestamps))
-    }
-    else
-      return []
+  async #postLines(items: string[], summary: string, note: string): Promise<void> {
+    await this.#outboundQueueService.post(`[Bot] ${summary}を表示します ${note}`, 'normal', true)
+    for (const item of items)
+      await this.#outboundQueueService.post(`[Bot] ${item}`, 'low', true)
   }
 
-  async #run(contents: string[], c: number, index: number): Promise<void> {
-    for (const item of sliceItems(contents, c, index === 1)) {
-      await this.#proxyService.post(`[Bot] ${item}`)
-      await new Promise<void>(
-        resolve => setTimeout(resolve, 1000)
-      )
-    }
+  async #speak(items: string[], summary: string, note: string): Promise<void> {
+    await this.#outboundQueueService.post(`[Bot] ${summary}を演説します ${note}`, 'normal', true)
+    await this.#speechService.create(items.join('\n'))
+  }
+
+  async #upload(items: string[], summary: string, note: string): Promise<void> {
+    const speech = await this.#speechService.create(items.join('\n'), 7, false)
+    await this.#outboundQueueService.post(
+      isKoukokuProxyPutResponse(speech)
+        ? `[Bot] ${summary}を${speech.url}に置きました ${note}, 期限:${speech.expiresAt}`
+        : `[Bot] ${summary}を置けませんでした ${note}`,
+      'normal',
+      true
+    )
   }
 
   constructor(
     db: DatabaseService,
-    proxyService: KoukokuProxyService,
+    logArchiveService: LogArchiveService,
+    outboundQueueService: OutboundQueueService,
     speechService: SpeechService
   ) {
-    const { REDIS_LOG_KEY, REDIS_TIMESTAMP_KEY } = process.env
+    const { LOG_CHAT_THRESHOLD, LOG_MAX_SPEECH_LINES, LOG_MAX_URL_LINES, LOG_PAGE_TTL } = process.env
+    this.#chatThreshold = parseIntOr(LOG_CHAT_THRESHOLD, 5)
     this.#db = db
-    this.#keyForLog = REDIS_LOG_KEY ?? 'koukoku:log'
-    this.#keyForTimestamp = REDIS_TIMESTAMP_KEY ?? 'koukoku:timestamp'
-    this.#proxyService = proxyService
+    this.#maxLines = {
+      lines: 30,
+      speech: parseIntOr(LOG_MAX_SPEECH_LINES, 30),
+      url: parseIntOr(LOG_MAX_URL_LINES, 300),
+    }
+    this.#outboundQueueService = outboundQueueService
+    this.#pages = new LogPages(parseIntOr(LOG_PAGE_TTL, 300000))
+    this.#reader = new LogReader(db, logArchiveService)
     this.#speechService = speechService
   }
 
-  async execute(matched: RegExpMatchArray, rawMessage: string): Promise<void> {
-    const { command, count, since, until } = matched.groups
+  /**
+   * Iterates over the logs within the range in batches, as `LogReader.batches` does.
+   */
+  batches(max: number | '+', min: number | '-', size?: number): AsyncGenerator<LogOrSpeechWithTimestamp[]> {
+    return this.#reader.batches(max, min, size)
+  }
+
+  /**
+   * Composes the logs into the compact lines shown by the `ログ` command, excluding `rawMessage` itself.
+   */
+  compose(values: LogOrSpeechWithTimestamp[], rawMessage: string): string[] {
+    const contents = [] as string[]
+    const last = {} as ComposingContext
+    const filter = except(rawMessage)
+    for (const { item, timestamp } of values)
+      contents.push(...composeLogsFromItem(last, item, timestamp, filter))
+    return contents
+  }
+
+  async execute(matched: RegExpMatchArray, rawMessage: string, log: Log): Promise<void> {
+    const { command, next } = matched.groups
     if (command) {
       const name = command.slice(2).toLowerCase()
       await this.#speechService.createFromFile(`templates/log/${name}.txt`)
     }
     else
-      await this.#execute(count, rawMessage, since, until)
+      await (next ? this.#continue(log.host) : this.#execute(matched.groups, rawMessage, log.host))
   }
 
   match(message: string): RegExpMatchArray {
@@ -114,37 +190,41 @@ export class LogService implements CommandService {
   }
 
   prepend(_log: Log, _timestamp: number): Promise<RedisStreamItem<Log>>
+  prepend(_notice: Notice, _timestamp: number): Promise<RedisStreamItem<Notice>>
   prepend(_speech: Speech, _timestamp: number | undefined): Promise<RedisStreamItem<Speech>>
-  async prepend(message: Log | Speech, timestamp: number | undefined): Promise<unknown> {
-    const id = await this.#db.xAdd(this.#keyForLog, message)
-    await this.#db.zAdd(this.#keyForTimestamp, timestamp, id)
+  async prepend(message: Log | Notice | Speech, timestamp: number | undefined): Promise<unknown> {
+    await this.#db.appendLog(message, timestamp)
     return message
   }
 
-  async query(max: number | '+', min: number | '-', count?: number): Promise<LogOrSpeechWithTimestamp[]> {
-    const card = await this.#db.zCard(this.#keyForTimestamp)
-    const index = 2 * +(max === '+') + +(min === '-')
-    if (index === 3) {
-      const items = await this.#db.xRevRange(this.#keyForLog, max as '+', min as '-', count)
-      const range = await this.#db.zRangeWithScores(this.#keyForTimestamp, { max: card, min: 0 })
-      const timestamps = new Map(range.map(convertRangeToTuple))
-      return items.filter(hasItemId(timestamps)).sort(descendingById(timestamps)).filter(isRedisStreamItemLogOrSpeech).map(combineItemAndTimestamp(timestamps))
+  /**
+   * Delivers the first of the pages, and remembers the rest for `ログ 続き` from the same host.
+   */
+  async present(host: string, pages: string[][], mode: LogDeliveryMode, subject: string, total: number): Promise<void> {
+    this.#pages.remember(host, pages, mode, subject, total)
+    await this.#deliver(this.#pages.next(host))
+  }
+
+  /**
+   * Queries the logs within the range, reading the archives as well if needed, as `LogReader.query` does.
+   */
+  query(max: number | '+', min: number | '-', count?: number): Promise<LogOrSpeechWithTimestamp[]> {
+    return this.#reader.query(max, min, count)
+  }
+
+  /**
+   * Reads a page of at most `count` records within the range which match the filter, following `cursor` if it is given,
+   * in the order of `LogExchange.compare`, which is kept across pages even if many records share a timestamp.
+   */
+  async records(range: TimeRange, filter: LogFilter, count: number, cursor?: LogCursor): Promise<LogRecordPage> {
+    const found = [] as LogRecord[]
+    const matches = LogExchange.matches(filter)
+    for await (const values of this.batches(cursor?.timestamp ?? range.max, range.min)) {
+      found.push(...values.map(LogExchange.toRecord).filter(follows(cursor)).filter(matches))
+      if (isPageComplete(found.sort(LogExchange.compare), count, values.at(-1).timestamp))
+        break
     }
-    const zRange = [this.#db.zRangeByScoreWithScores, this.#db.zRangeWithScores, this.#db.zRangeWithScores, this.#db.zRangeWithScores]
-    const source = await zRange[index].bind(this.#db)(
-      this.#keyForTimestamp,
-      {
-        max: [max as number, card, card][index],
-        min: [min as number, 0, 0][index],
-      }
-    )
-    const range = index
-      ? source.filter(
-        [isLessThan(max as number), isGreaterThan(min as number)][index - 1]
-      )
-      : source
-    const timestamps = new Map(range.map(convertRangeToTuple))
-    return await this.#query(timestamps, count)
+    return pageOf(found, count)
   }
 
   async start(): Promise<void> {
@@ -154,21 +234,12 @@ export class LogService implements CommandService {
   }
 }
 
-const combineItemAndTimestamp = (timestamps: Map<string, number>) => (item: RedisStreamItem<Log> | RedisStreamItem<Speech>) => {
-  const timestamp = timestamps.get(item.id)
-  return {
-    item,
-    timestamp
-  }
-}
-
 function* composeLogs(last: ComposingContext, log: Log, ...filters: FilterFunction<string>[]) {
   const { body, date, dow, host, time } = log
   const text = recompose(log)
   const c = new Set(
     [
-      isNotBot(body),
-      isNotTimeSignal(body),
+      !isBotOrTimeSignal(body),
       filters.every(f => f(text)),
     ]
   )
@@ -190,6 +261,30 @@ function* composeLogs(last: ComposingContext, log: Log, ...filters: FilterFuncti
   }
 }
 
+function* composeLogsFromItem(last: ComposingContext, item: RedisStreamItem<Log> | RedisStreamItem<Notice> | RedisStreamItem<Speech>, timestamp: number, filter: FilterFunction<string>) {
+  if (isRedisStreamItemLog(item))
+    yield* composeLogs(last, item.message, filter)
+  else if (isRedisStreamItemNotice(item))
+    yield* composeLogsFromNotice(last, item, timestamp)
+  else
+    yield* composeLogsFromSpeech(last, item)
+}
+
+function* composeLogsFromNotice(last: ComposingContext, item: RedisStreamItem<Notice>, timestamp: number) {
+  const { body, kind } = item.message
+  if (kind !== 'banner') {
+    const lines = body.split(/\r?\n/)
+    const { length } = lines
+    const suffix = [` ${length - 1} 行省略`, ''][+(length === 1)]
+    const date = new Date(timestamp)
+    const mmdd = [date.getMonth() + 1, date.getDate()].map(twoDigitString).join('/')
+    const time = [date.getHours(), date.getMinutes(), date.getSeconds()].map(twoDigitString).join(':')
+    delete last.host
+    delete last.message
+    yield `${mmdd} ${time} [お知らせ] ${lines[0]}${suffix}`
+  }
+}
+
 function* composeLogsFromSpeech(last: ComposingContext, item: RedisStreamItem<Speech>) {
   const lines = item.message.body.split(/\r?\n/)
   if (!lines.at(0)?.match(/^\s*\[Bot\]/)) {
@@ -207,102 +302,36 @@ function* composeLogsFromSpeech(last: ComposingContext, item: RedisStreamItem<Sp
   }
 }
 
-const convertDateComponents = (dateComponents: number[] | undefined): Date | undefined => {
-  if (dateComponents) {
-    const { length } = dateComponents
-    const year = [new Date().getFullYear(), dateComponents[0]][length - 2]
-    const month = [dateComponents[0], dateComponents[1]][length - 2]
-    const day = [dateComponents[1], dateComponents[2]][length - 2]
-    return new Date(year, month - 1, day)
-  }
-}
-
-const convertDateTimeComponents = (dateComponents: number[] | undefined, components: string[] | undefined): Date | undefined => {
-  const date = convertDateComponents(dateComponents)
-  const timeComponents = components?.[1].split(/[-:]/).map(parseStringAsDecimalInteger)
-  if (date && timeComponents) {
-    const { length } = timeComponents
-    const second = [0, timeComponents[2]][+(length === 3)]
-    return new Date(
-      date.getFullYear(),
-      date.getMonth(),
-      date.getDate(),
-      timeComponents[0],
-      timeComponents[1],
-      second
-    )
-  }
-}
-
-const convertFromUnixEpochTime = (value: number): Date | undefined => {
-  if (!isNaN(value))
-    return new Date(value)
-}
-
-const convertRangeToTuple = (range: { score: number, value: string }) => {
-  const { score, value } = range
-  return [value, score] as [string, number]
-}
-
-const decomposeDateString = (text: string | undefined) => {
-  const components = text?.split(' ')
-  const dateComponents = components?.[0].split(/[-/]/).map(parseStringAsDecimalInteger)
-  return {
-    components,
-    dateComponents,
-  }
-}
-
-const descendingById = (dict: Map<string, number>) => (lhs: { id: string }, rhs: { id: string }) => dict.get(rhs.id) - dict.get(lhs.id)
+const describeHosts = (by: string | undefined, exclude: string | undefined) =>
+  [by && ` ホスト:'${by}'`, exclude && ` 除外:'${exclude}'`].filter(Boolean).join('')
 
 const except = (text: string) => (matched: string) => !(matched === text)
 
-const formatDateTimeRange = (from: number | '-', to: number | '+') => {
-  const [since, until] = [from, to].map((value: number | '-' | '+') => new Date(value)).map(formatDateTimeToFullyQualifiedString)
-  const value = +(since === undefined) * 2 + +(until === undefined)
-  if (value < 3)
-    return `${qualifyNullishStringWithSuffix(since, 'から')}${qualifyNullishStringWithSuffix(until, 'まで')}`
-}
+/**
+ * Keeps the logs and speeches posted from the host given by `by` and drops those from the host given by `exclude`,
+ * where a host is given either as the exact host name or as a substring of the abbreviated one.
+ * Notices are kept unless `by` is given.
+ */
+const filterByHost = (by: string | undefined, exclude: string | undefined) => (value: LogOrSpeechWithTimestamp) =>
+  [by === undefined || isPostedFrom(value, by), exclude === undefined || !isPostedFrom(value, exclude)].every(Boolean)
 
-const hasItemId = (dict: Map<string, number>) => (item: { id: string }) => dict.has(item.id)
+const follows = (cursor: LogCursor | undefined) => (record: LogRecord) => cursor === undefined || LogExchange.compare(cursor, record) < 0
 
-const hasSingleElement = <T>(array: T[] | undefined) => array?.length === 1
+/**
+ * Tells whether the first `count` of the sorted records are settled, i.e. more records than that are found
+ * and none of the records yet to be read, whose timestamps are `oldest` at most, can come before the last of them.
+ */
+const isPageComplete = (records: LogRecord[], count: number, oldest: number) => count < records.length && oldest < records[count - 1].timestamp
 
-const interpretAsDate = (text: string | undefined) => {
-  const { components, dateComponents } = decomposeDateString(text)
-  return hasSingleElement(components)
-    ? (
-      hasSingleElement(dateComponents)
-        ? convertFromUnixEpochTime(dateComponents[0])
-        : convertDateComponents(dateComponents)
-    )
-    : convertDateTimeComponents(dateComponents, components)
+const isPostedFrom = (value: LogOrSpeechWithTimestamp, host: string) => {
+  const { item } = value
+  return isRedisStreamItemLogOrSpeech(item) && (item.message.host === host || abbreviateHostName(item.message.host).includes(host))
 }
 
 /**
- * Interprets a string as a datetime, and returns its elapsed time in milliseconds since Jan 01, 1970, 00:00:00.
- *
- * @param {string | undefined} text
- *
- * @param {T} alternateValue
- *
- * @returns {T | number} The elapsed time in milliseconds since Jan 01, 1970, 00:00:00 if the format of `text` is valid. Otherwise, `alternateValue`
+ * Takes the first `count` of the sorted records as a page, with the cursor to the next page if more records than that are found.
  */
-const interpretAsDateOr = <T>(text: string | undefined, alternateValue: T): T | number => interpretAsDate(text)?.getTime() ?? alternateValue
-
-const isGreaterThan = <T extends { score: number }>(min: number) => (item: T) => min <= item.score
-
-const isLessThan = <T extends { score: number }>(max: number) => (item: T) => item.score <= max
-
-const isNotBot = (body: string) => !body.startsWith('[Bot] ')
-
-const isNotTimeSignal = (body: string) => !body.startsWith('[時報] ')
-
-const parseStringAsDecimalInteger = (value: string) => parseInt(value)
-
-const qualifyNullishStringWithSuffix = (text: string | undefined, suffix: string) => text?.concat(suffix) ?? ''
-
-const sliceItems = <T>(items: T[], count: number, reverse: boolean) =>
-  reverse
-    ? items.reverse().slice(0, count).reverse()
-    : items.slice(0, count)
+const pageOf = (found: LogRecord[], count: number): LogRecordPage => {
+  const records = found.slice(0, count)
+  return count < found.length ? { next: LogExchange.encodeCursor(records.at(-1)), records } : { records }
+}
@@ -0,0 +1,168 @@
+import type {
+  Action,
+  KoukokuProxyResponse,
+  OutboundPriority,
+  Service,
+} from '..'
+
+import {
+  Injectable,
+  OutboxService,
+  OutgoingText,
+  isKoukokuProxyPutResponse,
+  outboundPriorities,
+  parseIntOr,
+} from '..'
+
+interface OutboundEntry {
+  listeners: Action<Error | KoukokuProxyResponse>[]
+  priority: OutboundPriority
+  solicited: boolean
+  text: string
+}
+
+/**
+ * Serializes every chat post through a single queue in front of the outbox.
+ * Entries are sent in order of priority at most once per `OUTBOUND_INTERVAL` milliseconds.
+ * A text identical to a pending entry is merged into it,
+ * and a text identical to one sent within `OUTBOUND_DUPLICATE_WINDOW` milliseconds is dropped.
+ * Neither applies to solicited texts, i.e. the lines of a result which a user has requested with a command,
+ * and they are not dropped for too many pending texts either, so that the result is delivered in full.
+ */
+@Injectable({
+  DependsOn: [
+    OutboxService,
+  ]
+})
+export class OutboundQueueService implements Service {
+  readonly #duplicateWindow: number
+  readonly #entries = [] as OutboundEntry[]
+  readonly #interval: number
+  readonly #maxPending: number
+  readonly #outboxService: OutboxService
+  readonly #sent = new Map<string, number>()
+  readonly #timerId = new WeakMap<this, NodeJS.Timeout>()
+  #last = 0
+
+  #drop(entry: OutboundEntry, reason: string): void {
+    console.log(`[queue] drop '\x1b[31m${entry.text}\x1b[m', ${reason}`)
+    const error = new Error(reason)
+    entry.listeners.forEach((listener: Action<Error>) => listener(error))
+  }
+
+  #enqueue(entry: OutboundEntry): void {
+    const index = this.#entries.findIndex(isLowerThan(entry.priority))
+    this.#entries.splice(index < 0 ? this.#entries.length : index, 0, entry)
+    if (this.#maxPending < this.#entries.length)
+      this.#dropUnsolicited()
+    this.#schedule()
+  }
+
+  #dropUnsolicited(): void {
+    const index = this.#entries.map((entry: OutboundEntry) => entry.solicited).lastIndexOf(false)
+    if (0 <= index)
+      this.#drop(this.#entries.splice(index, 1)[0], 'too many pending texts')
+  }
+
+  async #flush(): Promise<void> {
+    this.#timerId.delete(this)
+    const entry = this.#entries.shift()
+    if (entry) {
+      this.#last = Date.now()
+      this.#sent.set(entry.text, this.#last)
+      const response = await this.#outboxService.say(entry.text)
+      entry.listeners.forEach((listener: Action<Error | KoukokuProxyResponse>) => listener(response))
+    }
+    this.#forgetSent()
+    this.#schedule()
+  }
+
+  #forgetSent(): void {
+    const threshold = Date.now() - this.#duplicateWindow
+    for (const [text, timestamp] of this.#sent)
+      if (timestamp < threshold)
+        this.#sent.delete(text)
+  }
+
+  #isRecentlySent(text: string): boolean {
+    return Date.now() - (this.#sent.get(text) ?? -Infinity) < this.#duplicateWindow
+  }
+
+  #merge(entry: OutboundEntry, priority: OutboundPriority, listener: Action<Error | KoukokuProxyResponse>): void {
+    entry.listeners.push(listener)
+    if (rankOf(priority) < rankOf(entry.priority)) {
+      this.#entries.splice(this.#entries.indexOf(entry), 1)
+      this.#enqueue({ ...entry, priority })
+    }
+  }
+
+  #postLine(priority: OutboundPriority, solicited: boolean, text: string): Promise<Error | KoukokuProxyResponse> {
+    return new Promise(
+      (resolve: Action<Error | KoukokuProxyResponse>) => {
+        const pending = this.#entries.find((entry: OutboundEntry) => !solicited && !entry.solicited && entry.text === text)
+        const entry = { listeners: [resolve], priority, solicited, text }
+        if (solicited)
+          this.#enqueue(entry)
+        else if (pending)
+          this.#merge(pending, priority, resolve)
+        else if (this.#isRecentlySent(text))
+          this.#drop(entry, 'duplicate of a recently sent text')
+        else
+          this.#enqueue(entry)
+      }
+    )
+  }
+
+  async #postSpeech(content: string): Promise<Error | KoukokuProxyResponse> {
+    const response = await this.#outboxService.speech(content, 64, true)
+    return isKoukokuProxyPutResponse(response) ? { result: true } : response
+  }
+
+  #schedule(): void {
+    if (this.#entries.length && !this.#timerId.has(this)) {
+      const delay = Math.max(this.#last + this.#interval - Date.now(), 0)
+      this.#timerId.set(this, setTimeout(this.#flush.bind(this), delay))
+    }
+  }
+
+  constructor(
+    outboxService: OutboxService
+  ) {
+    const { OUTBOUND_DUPLICATE_WINDOW, OUTBOUND_INTERVAL, OUTBOUND_MAX_PENDING } = process.env
+    this.#duplicateWindow = parseIntOr(OUTBOUND_DUPLICATE_WINDOW, 10000)
+    this.#interval = parseIntOr(OUTBOUND_INTERVAL, 1000)
+    this.#maxPending = parseIntOr(OUTBOUND_MAX_PENDING, 30)
+    this.#outboxService = outboxService
+  }
+
+  get pending(): number {
+    return this.#entries.length
+  }
+
+  /**
+   * Enqueues a chat text, and resolves with the response of the proxy once it has been sent.
+   * The text is prepared with `OutgoingText.prepareChat` beforehand,
+   * so it may be sent as several numbered lines, or as a speech if it is too long.
+   * Resolves with an `Error` if the text was dropped, which never happens to a `solicited` one except on disposal.
+   */
+  async post(text: string, priority: OutboundPriority = 'normal', solicited: boolean = false): Promise<Error | KoukokuProxyResponse> {
+    const plan = await OutgoingText.prepareChat(text)
+    if ('speech' in plan)
+      return await this.#postSpeech(plan.speech)
+    const responses = await Promise.all(plan.lines.map(this.#postLine.bind(this, priority, solicited)))
+    return responses.find((response: Error | KoukokuProxyResponse) => response instanceof Error) ?? responses.at(-1)
+  }
+
+  async start(): Promise<void> {
+  }
+
+  async [Symbol.asyncDispose](): Promise<void> {
+    clearTimeout(this.#timerId.get(this))
+    this.#timerId.delete(this)
+    this.#entries.splice(0).forEach((entry: OutboundEntry) => this.#drop(entry, 'disposed'))
+  }
+}
+
+const isLowerThan = (priority: OutboundPriority) => (entry: OutboundEntry) => rankOf(priority) < rankOf(entry.priority)
+
+const rankOf = (priority: OutboundPriority) => outboundPriorities.indexOf(priority)
@@ -0,0 +1,258 @@
+import type {
+  DryRunCapture,
+  KoukokuProxyPutResponse,
+  KoukokuProxyResponse,
+  OutboxEntry,
+  OutboxPayload,
+  OutboxSayPayload,
+  OutboxSpeechPayload,
+  Service,
+} from '..'
+
+import {
+  DatabaseService,
+  DryRunSink,
+  ExponentialBackoff,
+  Injectable,
+  KoukokuProxyService,
+  TelnetClientService,
+  isKoukokuProxyError,
+  parseIntOr,
+} from '..'
+
+import { EventEmitter } from 'events'
+import { createHash, randomUUID } from 'crypto'
+
+type OutboxResponse = Error | KoukokuProxyPutResponse | KoukokuProxyResponse
+
+type PostBackend = 'fallback' | 'proxy' | 'telnet'
+
+/**
+ * Delivers posts and speeches through the proxy, and keeps the failed ones in the storage to retry them with backoff.
+ * Chat posts go through the backend chosen by `POST_BACKEND`,
+ * i.e. `proxy` (default), `telnet` to write them straight to the telnet session, or `fallback` to try the proxy first.
+ * Entries which could not be delivered until they expire are moved to the dead-letter list,
+ * from where operators can replay them with `npm run outbox`.
+ * Nothing is sent in the dry-run mode enabled by `DRY_RUN`, where every payload is captured by `DryRunSink` instead.
+ */
+@Injectable({
+  DependsOn: [
+    DatabaseService,
+    KoukokuProxyService,
+    TelnetClientService,
+  ]
+})
+export class OutboxService implements Service {
+  readonly #backend: PostBackend
+  readonly #backoffs = new Map<string, ExponentialBackoff>()
+  readonly #db: DatabaseService
+  readonly #dryRunSink?: DryRunSink
+  readonly #eventEmitter = new EventEmitter()
+  readonly #proxyService: KoukokuProxyService
+  readonly #scanTimerId = new WeakMap<this, NodeJS.Timeout>()
+  readonly #telnetClientService: TelnetClientService
+  readonly #timerIds = new Map<string, NodeJS.Timeout>()
+  readonly #ttl: number
+
+  async #attempt(entry: OutboxEntry): Promise<OutboxResponse> {
+    if (this.#dryRunSink)
+      return this.#capture(entry)
+    const startedAt = Date.now()
+    const response = await this.#deliver(entry.payload)
+    const reason = describeFailure(response)
+    await (reason === undefined ? this.#delivered(entry, response, startedAt) : this.#failed(entry, reason))
+    return response
+  }
+
+  #backoffOf(entry: OutboxEntry): ExponentialBackoff {
+    const backoff = this.#backoffs.get(entry.id) ?? ExponentialBackoff.fromEnvironment(
+      'OUTBOX_RETRY',
+      {
+        initialDelay: 2000,
+        jitter: 0.5,
+        maxAttempts: 10,
+        maxDelay: 60000,
+        multiplier: 2,
+      }
+    )
+    this.#backoffs.set(entry.id, backoff)
+    return backoff
+  }
+
+  #capture(entry: OutboxEntry): OutboxResponse {
+    const capture = this.#dryRunSink.capture(entry.payload)
+    if (this.#dryRunSink.has('web'))
+      this.#eventEmitter.emit('captured', capture)
+    return simulateResponse(capture)
+  }
+
+  #createEntry(payload: OutboxPayload): OutboxEntry {
+    const createdAt = Date.now()
+    return { attempts: 0, createdAt, expiresAt: createdAt + this.#ttl, id: randomUUID(), payload }
+  }
+
+  async #deadLetter(entry: OutboxEntry): Promise<void> {
+    await this.#forget(entry)
+    await this.#db.pushDeadLetter(entry)
+    console.error(`[outbox] \x1b[31mgave up\x1b[m ${entry.id} after ${entry.attempts} attempts, ${entry.lastError}`)
+    this.#eventEmitter.emit('dead', entry)
+  }
+
+  async #delivered(entry: OutboxEntry, response: OutboxResponse, startedAt: number): Promise<void> {
+    if (entry.attempts)
+      await this.#forget(entry)
+    this.#eventEmitter.emit('delivered', entry, response, startedAt)
+  }
+
+  #deliver(payload: OutboxPayload): Promise<OutboxResponse> {
+    return payload.kind === 'say'
+      ? this.#say(payload.text)
+      : this.#proxyService.post(payload.content, payload.maxLength, payload.remark)
+  }
+
+  async #failed(entry: OutboxEntry, reason: string): Promise<void> {
+    entry.attempts++
+    entry.lastError = reason
+    const delay = this.#backoffOf(entry).next()
+    delay === undefined || entry.expiresAt < Date.now() + delay
+      ? await this.#deadLetter(entry)
+      : await this.#retryLater(entry, delay)
+  }
+
+  async #forget(entry: OutboxEntry): Promise<void> {
+    clearTimeout(this.#timerIds.get(entry.id))
+    this.#timerIds.delete(entry.id)
+    this.#backoffs.delete(entry.id)
+    await this.#db.removeOutboxEntry(entry.id)
+  }
+
+  async #retryLater(entry: OutboxEntry, delay: number): Promise<void> {
+    console.log(`[outbox] retry ${entry.id} in \x1b[33m${delay}\x1b[m ms, ${entry.lastError}`)
+    await this.#db.putOutboxEntry(entry)
+    this.#timerIds.set(entry.id, setTimeout(this.#attempt.bind(this, entry), delay))
+  }
+
+  async #say(text: string): Promise<Error | KoukokuProxyResponse> {
+    const backends = {
+      fallback: async () => {
+        const response = await this.#proxyService.post(text)
+        return describeFailure(response) === undefined ? response : await sendOverTelnet(this.#telnetClientService, text)
+      },
+      proxy: () => this.#proxyService.post(text),
+      telnet: () => sendOverTelnet(this.#telnetClientService, text),
+    } as Record<PostBackend, () => Promise<Error | KoukokuProxyResponse>>
+    return await backends[this.#backend]()
+  }
+
+  async #scan(): Promise<void> {
+    for (const entry of await this.pending())
+      if (!this.#timerIds.has(entry.id))
+        this.#timerIds.set(entry.id, setTimeout(this.#attempt.bind(this, entry), this.#backoffOf(entry).next() ?? 0))
+  }
+
+  constructor(
+    db: DatabaseService,
+    proxyService: KoukokuProxyService,
+    telnetClientService: TelnetClientService
+  ) {
+    const { OUTBOX_TTL, POST_BACKEND } = process.env
+    this.#backend = postBackends.includes(POST_BACKEND as PostBackend) ? POST_BACKEND as PostBackend : 'proxy'
+    this.#db = db
+    this.#dryRunSink = DryRunSink.fromEnvironment()
+    this.#proxyService = proxyService
+    this.#telnetClientService = telnetClientService
+    this.#ttl = parseIntOr(OUTBOX_TTL, 600000)
+  }
+
+  deadLetters(): Promise<OutboxEntry[]> {
+    return this.#db.deadLetters()
+  }
+
+  on(_eventName: 'captured', _listener: (_capture: DryRunCapture) => void): this
+  on(_eventName: 'dead', _listener: (_entry: OutboxEntry) => void): this
+  on(_eventName: 'delivered', _listener: (_entry: OutboxEntry, _response: OutboxResponse, _startedAt: number) => void): this
+  on(eventName: 'captured' | 'dead' | 'delivered', listener: ((_capture: DryRunCapture) => void) | ((_entry: OutboxEntry) => void) | ((_entry: OutboxEntry, _response: OutboxResponse, _startedAt: number) => void)): this {
+    this.#eventEmitter.on(eventName, listener)
+    return this
+  }
+
+  pending(): Promise<OutboxEntry[]> {
+    return this.#db.outboxEntries()
+  }
+
+  purge(): Promise<boolean> {
+    return this.#db.purgeDeadLetters()
+  }
+
+  /**
+   * Moves the dead letters back to the outbox with a fresh expiry,
+   * so that the running bot picks them up on its next scan.
+   * Replays all of them unless `ids` are given.
+   */
+  async replay(...ids: string[]): Promise<OutboxEntry[]> {
+    const replayed = [] as OutboxEntry[]
+    for (const entry of await this.#db.deadLetters())
+      if (ids.length === 0 || ids.includes(entry.id)) {
+        const revived = { ...entry, attempts: 0, expiresAt: Date.now() + this.#ttl }
+        await this.#db.putOutboxEntry(revived)
+        await this.#db.removeDeadLetter(entry.id)
+        replayed.push(revived)
+      }
+    return replayed
+  }
+
+  say(text: string): Promise<Error | KoukokuProxyResponse> {
+    const payload = { kind: 'say', text } as OutboxSayPayload
+    return this.#attempt(this.#createEntry(payload)) as Promise<Error | KoukokuProxyResponse>
+  }
+
+  speech(content: string, maxLength: number, remark: boolean): Promise<Error | KoukokuProxyPutResponse> {
+    const payload = { content, kind: 'speech', maxLength, remark } as OutboxSpeechPayload
+    return this.#attempt(this.#createEntry(payload)) as Promise<Error | KoukokuProxyPutResponse>
+  }
+
+  async start(): Promise<void> {
+    if (this.#dryRunSink)
+      return
+    const interval = parseIntOr(process.env.OUTBOX_SCAN_INTERVAL, 60000)
+    await this.#scan()
+    this.#scanTimerId.set(this, setInterval(this.#scan.bind(this), interval))
+  }
+
+  async [Symbol.asyncDispose](): Promise<void> {
+    clearInterval(this.#scanTimerId.get(this))
+    this.#timerIds.forEach(clearTimeout)
+    this.#timerIds.clear()
+    this.#eventEmitter.removeAllListeners()
+    await this.#dryRunSink?.[Symbol.asyncDispose]()
+  }
+}
+
+const describeFailure = (response: OutboxResponse): string | undefined => response instanceof Error
+  ? response.message
+  : (isKoukokuProxyError(response) ? response.error.message : undefined)
+
+const postBackends: Readonly<PostBackend[]> = [
+  'fallback',
+  'proxy',
+  'telnet',
+] as const
+
+const sendOverTelnet = async (telnetClientService: TelnetClientService, text: string): Promise<Error | KoukokuProxyResponse> => await telnetClientService.send(text) ?? { result: true }
+
+const simulateResponse = (capture: DryRunCapture): KoukokuProxyPutResponse | KoukokuProxyResponse => {
+  const { payload, timestamp } = capture
+  if (payload.kind === 'say')
+    return { result: true }
+  const data = Buffer.from(payload.content)
+  const name = `dry-run-${timestamp}`
+  return {
+    byteLength: data.byteLength,
+    checksum: createHash('sha256').update(data).digest('hex'),
+    etag: name,
+    expiresAt: new Date(timestamp + 3600000).toISOString(),
+    name,
+    result: {},
+    url: `dry-run:${name}`,
+  }
+}
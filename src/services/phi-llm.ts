@@ -6,7 +6,7 @@ import type {
 import {
   DeepLService,
   Injectable,
-  KoukokuProxyService,
+  OutboundQueueService,
   isDeepLSuccess,
   isErrorLike,
 } from '..'
@@ -19,14 +19,14 @@ import { readFile } from 'fs/promises'
 
 @Injectable({
   DependsOn: [
-    KoukokuProxyService,
+    OutboundQueueService,
     DeepLService,
   ]
 })
 export class PhiLLMService implements CommandService {
   readonly #childProcess = new WeakMap<this, ChildProcess>()
   readonly #eventEmitter = new EventEmitter()
-  readonly #proxyService: KoukokuProxyService
+  readonly #outboundQueueService: OutboundQueueService
   readonly #regexp = /^対話\s(?<body>.+)$/
   readonly #status = {} as { generating?: true, ready?: true }
   readonly #translator: DeepLService
@@ -113,10 +113,10 @@ export class PhiLLMService implements CommandService {
   }
 
   constructor(
-    proxyService: KoukokuProxyService,
+    outboundQueueService: OutboundQueueService,
     translator: DeepLService
   ) {
-    this.#proxyService = proxyService
+    this.#outboundQueueService = outboundQueueService
     this.#translator = translator
   }
 
@@ -126,11 +126,11 @@ export class PhiLLMService implements CommandService {
     if (isDeepLSuccess(r)) {
       const response = await this.#generate(r.translations[0].text)
       if (response instanceof Error)
-        await this.#proxyService.post(`[Bot] 対話中にエラーが発生しました, ${response.message}`)
+        await this.#outboundQueueService.post(`[Bot] 対話中にエラーが発生しました, ${response.message}`)
       else {
         r = await this.#translator.translate(response, 'JA')
         if (isDeepLSuccess(r))
-          await this.#proxyService.post(`[Bot] ${r.translations[0].text.replaceAll(/\r?\n/g, '')}`)
+          await this.#outboundQueueService.post(`[Bot] ${r.translations[0].text.replaceAll(/\r?\n/g, '')}`)
       }
     }
     if (isErrorLike(r))
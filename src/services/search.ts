@@ -0,0 +1,112 @@
+import type {
+  CommandService,
+  Log,
+  LogOrSpeechWithTimestamp,
+} from '..'
+
+import {
+  BigramIndex,
+  Injectable,
+  LogService,
+  OutboundQueueService,
+  SpeechService,
+  dateTimePattern,
+  formatDateTimeRange,
+  interpretAsDateOr,
+  isBotOrTimeSignal,
+  isRedisStreamItemLogOrSpeech,
+  paginate,
+  parseIntOr,
+} from '..'
+
+/**
+ * Searches the chat history for the logs and speeches whose body contains a phrase, with the `検索` command.
+ * The index is built on the first search, and brought up to date with the logs appended since then on every search.
+ * Only the logs and speeches of the last `SEARCH_INDEX_DAYS` days (30 by default) are indexed, except those by the bot and the time signals,
+ * which are read in batches, and the older ones are dropped from the index on every search.
+ * Matches are shown newest first in the same compact format as the `ログ` command, `SEARCH_MAX_RESULTS` of them per page,
+ * and the following pages are shown by `ログ 続き`.
+ */
+@Injectable({
+  DependsOn: [
+    LogService,
+    OutboundQueueService,
+    SpeechService,
+  ]
+})
+export class SearchService implements CommandService {
+  readonly #index = new BigramIndex<LogOrSpeechWithTimestamp>()
+  readonly #logService: LogService
+  readonly #maxAge: number
+  readonly #maxResults: number
+  readonly #outboundQueueService: OutboundQueueService
+  readonly #regexp = new RegExp(String.raw`^検索\s+((?<command>--help)|(?<phrase>.+?)(\s?since\s?(?<since>${dateTimePattern}))?(\s?until\s?(?<until>${dateTimePattern}))?)$`, 'i')
+  readonly #speechService: SpeechService
+  #last = 0
+
+  #add(value: LogOrSpeechWithTimestamp): void {
+    const { item, timestamp } = value
+    if (isRedisStreamItemLogOrSpeech(item) && !isBotOrTimeSignal(item.message.body))
+      this.#index.add(item.id, item.message.body, value)
+    this.#last = Math.max(timestamp, this.#last)
+  }
+
+  async #execute(phrase: string, log: Log, rawMessage: string, since: string | undefined, until: string | undefined): Promise<void> {
+    const min = interpretAsDateOr(since, '-')
+    const max = interpretAsDateOr(until, '+')
+    const range = formatDateTimeRange(min, max) ?? '{未指定}'
+    await this.#update()
+    const values = this.#index.search(phrase).filter(isWithin(min, max)).sort(descending)
+    const contents = this.#logService.compose(values, rawMessage)
+    const { length } = contents
+    console.log(`[search] '\x1b[32m${phrase}\x1b[m' ${length} matches in ${this.#index.size} logs`)
+    if (length) {
+      const pages = paginate(contents, this.#maxResults, false)
+      await this.#logService.present(log.host, pages, 'lines', `語句:'${phrase}' 範囲:'${range}' に対して`, length)
+    }
+    else
+      await this.#outboundQueueService.post(`[Bot] 語句:'${phrase}' 範囲:'${range}' に該当するログがありません`)
+  }
+
+  async #update(): Promise<void> {
+    const oldest = Date.now() - this.#maxAge
+    this.#index.prune((value: LogOrSpeechWithTimestamp) => value.timestamp < oldest)
+    for await (const values of this.#logService.batches('+', Math.max(oldest, this.#last)))
+      values.forEach(this.#add.bind(this))
+  }
+
+  constructor(
+    logService: LogService,
+    outboundQueueService: OutboundQueueService,
+    speechService: SpeechService
+  ) {
+    this.#logService = logService
+    this.#maxAge = parseIntOr(process.env.SEARCH_INDEX_DAYS, 30) * 86400000
+    this.#maxResults = Math.min(parseIntOr(process.env.SEARCH_MAX_RESULTS, 10), 30)
+    this.#outboundQueueService = outboundQueueService
+    this.#speechService = speechService
+  }
+
+  async execute(matched: RegExpMatchArray, rawMessage: string, log: Log): Promise<void> {
+    const { command, phrase, since, until } = matched.groups
+    if (command)
+      await this.#speechService.createFromFile('templates/search/help.txt')
+    else
+      await this.#execute(phrase.trim(), log, rawMessage, since, until)
+  }
+
+  match(message: string): RegExpMatchArray {
+    return message.match(this.#regexp)
+  }
+
+  async start(): Promise<void> {
+  }
+
+  async [Symbol.asyncDispose](): Promise<void> {
+  }
+}
+
+const descending = (lhs: LogOrSpeechWithTimestamp, rhs: LogOrSpeechWithTimestamp) => rhs.timestamp - lhs.timestamp
+
+const isWithin = (min: number | '-', max: number | '+') => (value: LogOrSpeechWithTimestamp) =>
+  (min === '-' || min <= value.timestamp) && (max === '+' || value.timestamp <= max)
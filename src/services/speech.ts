@@ -1,6 +1,7 @@
 import {
   Injectable,
-  KoukokuProxyService,
+  OutboxService,
+  OutgoingText,
 } from '..'
 
 import type {
@@ -12,24 +13,23 @@ import { readFile } from 'fs/promises'
 
 @Injectable({
   DependsOn: [
-    KoukokuProxyService,
+    OutboxService,
   ]
 })
 export class SpeechService implements Service {
-  readonly #proxyService: KoukokuProxyService
+  readonly #outboxService: OutboxService
 
   constructor(
-    proxyService: KoukokuProxyService
+    outboxService: OutboxService
   ) {
-    this.#proxyService = proxyService
+    this.#outboxService = outboxService
   }
 
   async create(content: string, maxLength: number = 64, remark: boolean = true): Promise<Error | KoukokuProxyPutResponse> {
-    const response = await this.#proxyService.post(content, maxLength, remark)
+    const response = await this.#outboxService.speech(await OutgoingText.prepareSpeech(content), maxLength, remark)
     if (response instanceof Error) {
       console.log(`content: \x1b[32m${content}\x1b[m, error: \x1b[31m${response.message}\x1b[m, maxLength: \x1b[33m${maxLength}\x1b[m`)
       console.dir({ stacktrace: response.stack }, { colors: true, depth: 1, maxArrayLength: null })
-      //await this.#proxyService.post('[Bot] 大演説の生成に失敗しました')
     }
     return response
   }
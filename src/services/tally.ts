@@ -1,22 +1,48 @@
 import type {
   CommandService,
-  Log,
+  LogOrSpeechWithTimestamp,
+  TimeRange,
+  WordFrequency,
+  WordFrequencyReport,
 } from '..'
 
 import {
   Injectable,
   LogService,
   SpeechService,
+  WordCounter,
   abbreviateHostName,
+  dateTimePattern,
+  formatDateTimeRange,
   formatDateTimeToFullyQualifiedString,
+  interpretAsDateOr,
+  isBotOrTimeSignal,
   isRedisStreamItemLog,
+  parseIntOr,
 } from '..'
 
-interface TallyQualifier {
+import { readFile } from 'fs/promises'
+
+interface TallyOptions {
+  excludeBots: boolean
+  top: number
+}
+
+interface Stopwords {
+  stopwords: string[]
+}
+
+interface TallyQualifier extends TimeRange {
   name: string
-  week: number
 }
 
+/**
+ * Tallies the chat lines of each client distinguished by its reverse-resolved host name with the `集計` command.
+ * The current and the previous periods are tallied for `日次`, `週次` (default) and `月次`,
+ * or the range given by `since` and `until` otherwise.
+ * With `単語`, the most frequent words in the chat lines are tallied instead, except those listed in `conf/stopwords.json`.
+ * The logs are read in batches, so that a long period does not have to be loaded into memory at once.
+ */
 @Injectable({
   DependsOn: [
     LogService,
@@ -25,50 +51,42 @@ interface TallyQualifier {
 })
 export class TallyService implements CommandService {
   readonly #logService: LogService
-  readonly #regexp = /^集計(\s(?<command>--help))?$/i
+  readonly #regexp = new RegExp(String.raw`^集計(\s+((?<command>--help)|(?<words>単語)?(\s?(?<period>日次|週次|月次))?(\s?since\s?(?<since>${dateTimePattern}))?(\s?until\s?(?<until>${dateTimePattern}))?(\s?top\s?(?<top>[1-9]\d*))?(\s?(?<excludeBots>--exclude-bots))?))?$`, 'i')
   readonly #speechService: SpeechService
+  readonly #stopwords = new Set<string>()
 
-  async #tally(list: string[], _matched: RegExpMatchArray): Promise<void> {
-    const weekly = new Map<number, Map<string, Log[]>>()
-    await this.#tallyByWeek(weekly)
-    const weeks = [...weekly.keys()].sort(descending)
-    const qualifiers: Readonly<TallyQualifier[]> = [
-      {
-        name: '今',
-        week: weeks[0],
-      },
-      {
-        name: '先',
-        week: weeks[1],
-      },
-    ] as const
-    for (const q of qualifiers) {
-      const hosts = weekly.get(q.week)
-      list.push(`${q.name}週のクライアント数は ${hosts.size} で、発言回数の多かったものは次の通りです`)
-      list.push('')
-      const sorted = [...hosts.entries()].sort(descendingByFrequency)
-      for (const [host, chats] of sorted.slice(0, 5))
-        list.push(`${abbreviateHostName(host)} ${chats.length} 回`)
-      list.push('')
-    }
+  async #count(qualifiers: TallyQualifier[], options: TallyOptions): Promise<Map<string, number>[]> {
+    const counts = qualifiers.map(() => new Map<string, number>())
+    const isCounted = options.excludeBots ? isNotBotNorTimeSignal : isLog
+    for await (const values of this.#logService.batches(qualifiers[0].max, qualifiers.at(-1).min))
+      values.filter(isCounted).forEach(countHost.bind(undefined, counts, qualifiers))
+    return counts
+  }
+
+  async #loadStopwords(): Promise<void> {
+    const data = await readFile('conf/stopwords.json')
+    const { stopwords } = JSON.parse(data.toString()) as Stopwords
+    stopwords.forEach(this.#stopwords.add.bind(this.#stopwords))
+  }
+
+  async #tally(list: string[], matched: RegExpMatchArray): Promise<void> {
+    const { excludeBots, period, since, top, until, words } = matched.groups
+    const qualifiers = (since ?? until) ? qualifiersOfRange(since, until) : qualifiersOfPeriod(period ?? '週次')
+    const options = { excludeBots: excludeBots !== undefined, top: Math.min(parseIntOr(top, 5), 30) }
+    await (words ? this.#tallyWords(list, qualifiers, options) : this.#tallyHosts(list, qualifiers, options))
+  }
+
+  async #tallyHosts(list: string[], qualifiers: TallyQualifier[], options: TallyOptions): Promise<void> {
+    const counts = await this.#count(qualifiers, options)
+    qualifiers.forEach((q: TallyQualifier, index: number) => list.push(...renderCounts(q.name, counts[index], options.top), ''))
     list.push('※クライアントは逆引きホスト名で区別しています。')
-    list.push('※発言回数は Bot および時報を含みます。')
+    list.push(`※発言回数は Bot および時報を${['含みます', '含みません'][+options.excludeBots]}。`)
   }
 
-  async #tallyByWeek(weekly: Map<number, Map<string, Log[]>>): Promise<void> {
-    const now = new Date()
-    const epoch = new Date(now.getFullYear(), 0, 1).getTime()
-    for (const { id, message } of (await this.#logService.query('+', '-')).map(element => element.item).filter(isRedisStreamItemLog)) {
-      const timestamp = new Date(parseInt(id.split('-')[0])).getTime()
-      const numberOfDays = Math.floor((timestamp - epoch) / 864e5)
-      const week = Math.ceil((now.getDay() + 1 + numberOfDays) / 7)
-      const hosts = weekly.get(week) ?? new Map<string, Log[]>()
-      const { host } = message
-      const list = hosts.get(host) ?? []
-      list.push(message)
-      hosts.set(host, list)
-      weekly.set(week, hosts)
-    }
+  async #tallyWords(list: string[], qualifiers: TallyQualifier[], options: TallyOptions): Promise<void> {
+    for (const q of qualifiers)
+      list.push(...renderWords(q.name, await this.wordFrequencies(q, options.top)), '')
+    list.push('※[Bot]および[時報]で始まる発言は除外しています。')
   }
 
   constructor(
@@ -100,12 +118,69 @@ export class TallyService implements CommandService {
   }
 
   async start(): Promise<void> {
+    await this.#loadStopwords()
+  }
+
+  /**
+   * Tallies the most frequent words in the chat lines within the range, except those by the bot and the time signals.
+   */
+  async wordFrequencies(range: TimeRange, top: number): Promise<WordFrequencyReport> {
+    const counter = new WordCounter(this.#stopwords)
+    for await (const values of this.#logService.batches(range.max, range.min))
+      for (const value of values.filter(isNotBotNorTimeSignal))
+        counter.add(value.item.message.body)
+    return { max: range.max, min: range.min, total: counter.total, words: counter.top(top) }
   }
 
   async [Symbol.asyncDispose](): Promise<void> {
   }
 }
 
-const descending = (lhs: number, rhs: number) => rhs - lhs
+const contains = (timestamp: number) => (q: TallyQualifier) => (q.min === '-' || q.min <= timestamp) && (q.max === '+' || timestamp <= q.max)
+
+const countHost = (counts: Map<string, number>[], qualifiers: TallyQualifier[], value: LogOrSpeechWithTimestamp) => {
+  const index = qualifiers.findIndex(contains(value.timestamp))
+  const { host } = value.item.message as { host: string }
+  counts[index]?.set(host, (counts[index].get(host) ?? 0) + 1)
+}
+
+const descendingByFrequency = (lhs: [string, number], rhs: [string, number]) => rhs[1] - lhs[1]
+
+const isLog = (value: LogOrSpeechWithTimestamp) => isRedisStreamItemLog(value.item)
+
+const isNotBotNorTimeSignal = (value: LogOrSpeechWithTimestamp) => isRedisStreamItemLog(value.item) && !isBotOrTimeSignal(value.item.message.body)
+
+/**
+ * The names of the current and the previous periods, which are interpreted by `interpretAsDateOr` as their beginnings.
+ */
+const periods = {
+  日次: ['今日', '昨日'],
+  月次: ['今月', '先月'],
+  週次: ['今週', '先週'],
+} as Record<string, [string, string]>
+
+const qualifiersOfPeriod = (period: string): TallyQualifier[] => {
+  const [current, previous] = periods[period].map((name: string) => interpretAsDateOr(name, 0))
+  return [
+    { max: '+', min: current, name: periods[period][0] },
+    { max: current - 1, min: previous, name: periods[period][1] },
+  ]
+}
+
+const qualifiersOfRange = (since: string | undefined, until: string | undefined): TallyQualifier[] => {
+  const min = interpretAsDateOr(since, '-')
+  const max = interpretAsDateOr(until, '+')
+  return [{ max, min, name: `範囲:'${formatDateTimeRange(min, max) ?? '{未指定}'}'` }]
+}
+
+const renderCounts = (name: string, hosts: Map<string, number>, top: number): string[] => [
+  `${name}のクライアント数は ${hosts.size} で、発言回数の多かったものは次の通りです`,
+  '',
+  ...[...hosts].sort(descendingByFrequency).slice(0, top).map(([host, count]: [string, number]) => `${abbreviateHostName(host)} ${count} 回`),
+]
 
-const descendingByFrequency = (lhs: [string, Log[]], rhs: [string, Log[]]) => rhs[1].length - lhs[1].length
+const renderWords = (name: string, report: WordFrequencyReport): string[] => [
+  `${name}によく使われた語は次の通りです (全部で ${report.total} 語)`,
+  '',
+  ...report.words.map(({ count, word }: WordFrequency) => `${word} ${count} 回`),
+]
@@ -1,14 +1,23 @@
 import type {
   Action,
   Log,
+  Notice,
   Service,
   Speech,
+  TelnetConnectionState,
+  TelnetConnectionStatus,
 } from '..'
 
 import {
   DatabaseService,
+  ExponentialBackoff,
   Injectable,
+  KoukokuParser,
+  SJIS,
+  TelnetRecorder,
   parseIntOr,
+  parseKoukokuNotice,
+  replayTelnetRecording,
 } from '..'
 
 import {
@@ -19,84 +28,66 @@ import {
 
 import { EventEmitter } from 'events'
 
-interface BufferWithTimestamp {
-  timestamp: number
-  value: Buffer
-}
-
 @Injectable({
   DependsOn: [
     DatabaseService,
   ]
 })
 export class TelnetClientService implements Service {
+  readonly #backoff: ExponentialBackoff
   readonly #client = new WeakMap<this, TLSSocket>()
   readonly #db: DatabaseService
   readonly #eventEmitter = new EventEmitter()
-  readonly #idleTimerId = new WeakMap<this, NodeJS.Timeout>()
-  readonly #key: string
-  readonly #received = [] as BufferWithTimestamp[]
+  readonly #parser = new KoukokuParser()
+  readonly #reconnectTimerId = new WeakMap<this, NodeJS.Timeout>()
+  readonly #recorder?: TelnetRecorder
+  #status: TelnetConnectionStatus = { attempts: 0, since: Date.now(), state: 'disconnected' }
 
-  async #acceptData(data: Buffer): Promise<void> {
-    const timestamp = Date.now()
-    const idleTimerId = this.#idleTimerId.get(this)
-    clearTimeout(idleTimerId)
-    this.#idleTimerId.delete(this)
-    if (data.byteLength <= 70) {
-      const value = Buffer.from(data.toString().replaceAll('\x07', ''))
-      this.#received.push({ timestamp, value })
-    }
-    else {
-      const text = data.toString().replaceAll(/\r?\n/g, '')
-      for (const matched of text.matchAll(messageRE)) {
-        const { body, date, dow, forgery, host, self, time } = matched.groups
-        const log = { body, date, dow, forgery, host, self, time } as Log
-        if (forgery === undefined)
-          delete log.forgery
-        if (self === undefined)
-          delete log.self
-        this.#dispatch('message', log, matched[0], timestamp)
-        dumpMatched(matched)
-      }
-    }
-    this.#idleTimerId.set(this, setTimeout(this.#idle.bind(this, timestamp), 125))
+  async #acceptData(data: Buffer, timestamp: number): Promise<void> {
+    this.#parser.push(data, timestamp)
   }
 
   async #acceptSession(data: Buffer): Promise<void> {
     console.log(`new session key, \x1b[33m${data.byteLength}\x1b[m bytes received`)
-    await this.#db.set(this.#key, data.toString('hex'))
+    await this.#db.saveSession(data)
   }
 
-  async #connect(): Promise<void> {
+  #acceptUnknown(text: string, timestamp: number): void {
+    this.#dispatch('unknown', text, timestamp)
+    const notice = parseKoukokuNotice(text)
+    if (notice)
+      this.#dispatch('notice', notice, timestamp)
+  }
+
+  async #connect(): Promise<Error | undefined> {
+    this.#reconnectTimerId.delete(this)
+    this.#setStatus('connecting')
     const opts = {
       rejectUnauthorized: !process.argv.includes('--no-reject-unauthorized'),
     } as ConnectionOptions
-    const data = await this.#db.get(this.#key)
-    if (data)
-      opts.session = Buffer.from(data, 'hex')
-    await this.#connectWithOption(opts)
+    const session = await this.#db.loadSession()
+    if (session)
+      opts.session = session
+    return await this.#connectWithOption(opts)
   }
 
-  #connectWithOption(opts: ConnectionOptions): Promise<Error> {
+  #connectWithOption(opts: ConnectionOptions): Promise<Error | undefined> {
     return new Promise(
-      (resolve: Action<Error>) => {
+      (resolve: Action<Error | undefined>) => {
         const { TELNET_SERVER_NAME, TELNET_SERVER_PORT } = process.env
         const port = parseIntOr(TELNET_SERVER_PORT, 992)
         const serverName = TELNET_SERVER_NAME ?? 'koukoku.shadan.open.ad.jp'
         console.log(`connecting to ${serverName}:${port}`)
         const client = connect(port, serverName, opts, this.#connected.bind(this, resolve))
         this.#client.set(this, client)
-        client.on('data', this.#acceptData.bind(this))
-        client.on('end', this.#connect.bind(this))
+        client.on('data', this.#receive.bind(this))
+        client.on('end', this.#disconnected.bind(this, client, 'connection closed by the server'))
         client.on(
           'error',
           (error: Error) => {
             console.error({ error })
-            const client = this.#client.get(this)
-            client?.removeAllListeners()
-            client?.unref()
-            this.#client.delete(this)
-            this.#connect()
+            resolve(error)
+            this.#disconnected(client, error.message)
           }
         )
         client.once('session', this.#acceptSession.bind(this))
@@ -106,92 +97,145 @@ export class TelnetClientService implements Service {
     )
   }
 
-  #connected(cb: Action<Error>): void {
+  #connected(cb: Action<Error | undefined>): void {
     const client = this.#client.get(this)
+    this.#backoff.reset()
+    this.#parser.reset()
     client?.write('nobody\r\n', cb)
     console.log(`connection established from ${client.localAddress}:${client.localPort} to ${client.remoteAddress}:${client.remotePort}`)
+    this.#setStatus('connected')
+  }
+
+  #disconnected(client: TLSSocket, reason: string): void {
+    if (this.#client.get(this) === client) {
+      client.removeAllListeners()
+      client.destroy()
+      this.#client.delete(this)
+      this.#reconnectLater(reason)
+    }
   }
 
-  #dispatch(_eventName: 'message', _log: Log, _rawMessage: string, _timestamp: number): void
-  #dispatch(_eventName: 'speech', _speech: Omit<Speech, 'hash'>, _rawMessage: string, _timestamp: number): void
-  #dispatch(eventName: 'message' | 'speech', value: Log | Omit<Speech, 'hash'>, rawMessage: string, timestamp: number): void {
+  #dispatch(eventName: TelnetClientEventName, ...args: unknown[]): void {
     queueMicrotask(
-      this.#eventEmitter.emit.bind(this.#eventEmitter, eventName, value, rawMessage, timestamp)
+      this.#eventEmitter.emit.bind(this.#eventEmitter, eventName, ...args)
     )
   }
 
-  async #idle(timestamp: number): Promise<void> {
-    const data = Buffer.concat(this.#received.map(ofValue))
-    const finished = `${timestamp}`
-    const text = data.toString()
-    const last = {} as { position?: number }
-    for (const matched of text.matchAll(speechRE)) {
-      last.position = matched.index + matched[0].length
-      const { body, date, host, time } = matched.groups
-      const speech = { body, date, finished, host, time }
-      this.#dispatch('speech', speech, matched[0], this.#timestampAt(Buffer.from(text.slice(0, matched.index)).byteLength))
-      dumpMatched(matched)
-    }
-    const { position } = last
-    if (0 < position) {
-      const value = data.subarray(Buffer.from(text.slice(0, position)).byteLength)
-      const index = +(value.byteLength === 0)
-      const timestampAt = [this.#timestampAt.bind(this), undefined][index]
-      const timestamp = timestampAt?.(position)
-      this.#received.splice(0)
-      const push = [this.#received.push.bind(this.#received), undefined][index]
-      push?.({ timestamp, value })
+  #reconnectLater(reason: string): void {
+    const delay = this.#backoff.next()
+    this.#setStatus('disconnected', reason, delay)
+    if (delay === undefined)
+      console.error(`\x1b[31mgave up reconnecting after ${this.#backoff.attempts} attempts\x1b[m`)
+    else {
+      console.log(`reconnecting in \x1b[33m${delay}\x1b[m ms`)
+      this.#reconnectTimerId.set(this, setTimeout(this.#connect.bind(this), delay))
     }
   }
 
-  #timestampAt(position: number): number | undefined {
-    const ctx = { offset: 0 }
-    const found = this.#received.find(
-      (item: BufferWithTimestamp) => {
-        const { offset } = ctx
-        ctx.offset += item.value.byteLength
-        return offset <= position && position < ctx.offset
-      }
-    )
-    return found?.timestamp
+  async #receive(data: Buffer): Promise<void> {
+    const timestamp = Date.now()
+    this.#recorder?.record({ timestamp, value: data })
+    await this.#acceptData(data, timestamp)
+  }
+
+  #setStatus(state: TelnetConnectionState, reason?: string, delay?: number): void {
+    const since = Date.now()
+    this.#status = { attempts: this.#backoff.attempts, reason, since, state }
+    if (delay !== undefined)
+      this.#status.retryAt = since + delay
+    this.#dispatch(state, this.status)
   }
 
   constructor(
     db: DatabaseService
   ) {
+    const { TELNET_RECORD_PATH } = process.env
+    this.#backoff = ExponentialBackoff.fromEnvironment(
+      'TELNET_RECONNECT',
+      {
+        initialDelay: 1000,
+        jitter: 0.5,
+        maxDelay: 300000,
+        multiplier: 2,
+      }
+    )
     this.#db = db
-    this.#key = process.env.REDIS_SESSION_KEY ?? 'koukoku:session'
+    if (TELNET_RECORD_PATH)
+      this.#recorder = new TelnetRecorder(TELNET_RECORD_PATH)
+    this.#parser.on('message', this.#dispatch.bind(this, 'message'))
+    this.#parser.on('speech', this.#dispatch.bind(this, 'speech'))
+    this.#parser.on('unknown', this.#acceptUnknown.bind(this))
+  }
+
+  get status(): TelnetConnectionStatus {
+    return { ...this.#status }
   }
 
+  on(_eventName: TelnetConnectionState, _listener: (_status: TelnetConnectionStatus) => PromiseLike<void>): this
   on(_eventName: 'message', _listener: (_log: Log, _rawMessage: string, _timestamp: number) => PromiseLike<void>): this
+  on(_eventName: 'notice', _listener: (_notice: Notice, _timestamp: number) => PromiseLike<void>): this
   on(_eventName: 'speech', _listener: (_speech: Omit<Speech, 'hash'>, _rawMessage: string, _timestamp: number | undefined) => PromiseLike<void>): this
-  on(eventName: 'message' | 'speech', listener: ((_log: Log, _rawMessage: string, _timestamp: number) => PromiseLike<void>) | ((_speech: Omit<Speech, 'hash'>, _rawMessage: string, _timestamp: number | undefined) => PromiseLike<void>)): this {
+  on(_eventName: 'unknown', _listener: (_text: string, _timestamp: number) => PromiseLike<void>): this
+  on(eventName: TelnetClientEventName, listener: TelnetClientListener): this {
     this.#eventEmitter.on(eventName, listener)
     return this
   }
 
+  /**
+   * Feeds the chunks recorded with `TELNET_RECORD_PATH` through the parser instead of the live connection.
+   */
+  async replay(path: string, speed: number = 1): Promise<void> {
+    console.log(`replaying ${path} at \x1b[33m${speed}\x1b[mx speed`)
+    for await (const { timestamp, value } of replayTelnetRecording(path, speed))
+      await this.#acceptData(value, timestamp)
+  }
+
+  /**
+   * Posts a chat line straight to the telnet session instead of through the proxy.
+   * The line is encoded in `TELNET_POST_ENCODING`, either `utf8` or `sjis`.
+   */
+  async send(text: string): Promise<Error | undefined> {
+    const client = this.#client.get(this)
+    if (this.#status.state !== 'connected' || client === undefined)
+      return new Error('not connected to the telnet server')
+    const data = await encodeLine(text.replaceAll(/[\r\n]+/g, ' ').trim()).catch(
+      (reason: Error) => reason
+    )
+    console.log(`[telnet] send '\x1b[32m${text}\x1b[m'`)
+    return data instanceof Error
+      ? data
+      : await new Promise((resolve: Action<Error | undefined>) => client.write(data, resolve))
+  }
+
   async start(): Promise<void> {
-    await this.#connect()
+    const { TELNET_REPLAY_PATH, TELNET_REPLAY_SPEED } = process.env
+    if (TELNET_REPLAY_PATH)
+      queueMicrotask(() => this.replay(TELNET_REPLAY_PATH, Number(TELNET_REPLAY_SPEED ?? 1)).catch(reportReplayFailure))
+    else
+      await this.#connect()
   }
 
   async [Symbol.asyncDispose](): Promise<void> {
     const client = this.#client.get(this)
     this.#client.delete(this)
+    clearTimeout(this.#reconnectTimerId.get(this))
     this.#eventEmitter.removeAllListeners()
-    client.unref()
+    client?.removeAllListeners()
+    client?.unref()
+    await this.#recorder?.[Symbol.asyncDispose]()
   }
 }
 
-const dumpMatched = (matched: RegExpMatchArray) => {
-  const { groups: g, index, input } = matched
-  const groups = {} as Record<string, string>
-  for (const key in g)
-    groups[key] = g[key]
-  console.log({ groups, index, input, matched: matched[0] })
-}
+const encodeLine = async (line: string): Promise<Buffer> => process.env.TELNET_POST_ENCODING === 'sjis'
+  ? await SJIS.encode(`${await SJIS.escape(line)}\r\n`)
+  : Buffer.from(`${line}\r\n`)
 
-const messageRE = />>\s「\s(?<body>[^」]+(?=\s」))\s」\(チャット放話\s-\s(?<date>\d\d\/\d\d)\s\((?<dow>[日月火水木金土])\)\s(?<time>\d\d:\d\d:\d\d)\sby\s(?<host>[^\s]+)(\s\((?<forgery>※\s贋作\sDNS\s逆引の疑い)\))?\s君(\s(?<self>〈＊あなた様＊〉))?\)\s<</g
+const reportReplayFailure = (error: Error) => console.error(`[telnet] \x1b[31mfailed to replay\x1b[m ${error.message}`)
 
-const ofValue = (item: BufferWithTimestamp) => item.value
+type TelnetClientEventName = TelnetConnectionState | 'message' | 'notice' | 'speech' | 'unknown'
 
-const speechRE = /\s+(★☆){2}\s臨時ニユース\s緊急放送\s(☆★){2}\s(?<date>\p{scx=Han}+\s\d+\s年\s\d+\s月\s\d+\s日\s[日月火水木金土]曜)\s(?<time>\d{2}:\d{2})\s+★\sたった今、(?<host>[^\s]+)\s君より[\S\s]+★\s+＝{3}\s大演説の開闢\s＝{3}(\r\n){2}(?<body>[\S\s]+(?=(\r\n){2}))\s+＝{3}\s大演説の終焉\s＝{3}\s+/gu
+type TelnetClientListener = ((_status: TelnetConnectionStatus) => PromiseLike<void>)
+  | ((_log: Log, _rawMessage: string, _timestamp: number) => PromiseLike<void>)
+  | ((_notice: Notice, _timestamp: number) => PromiseLike<void>)
+  | ((_speech: Omit<Speech, 'hash'>, _rawMessage: string, _timestamp: number | undefined) => PromiseLike<void>)
+  | ((_text: string, _timestamp: number) => PromiseLike<void>)
@@ -1,6 +1,6 @@
 import {
   Injectable,
-  KoukokuProxyService,
+  OutboundQueueService,
   PeriodicSchedulerService,
   TelnetClientService,
   twoDigitString,
@@ -19,13 +19,13 @@ interface TimeSignal {
 
 @Injectable({
   DependsOn: [
-    KoukokuProxyService,
+    OutboundQueueService,
     PeriodicSchedulerService,
     TelnetClientService,
   ]
 })
 export class TimeSignalService implements Service {
-  readonly #proxyService: KoukokuProxyService
+  readonly #outboundQueueService: OutboundQueueService
   readonly #regexp = /^\[時報\](?<time>(\s\d+\s[年月日時分秒])+)です$/
   readonly #scheduleId: number
   readonly #schedulerService: PeriodicSchedulerService
@@ -51,16 +51,16 @@ export class TimeSignalService implements Service {
         now.getMinutes(),
         now.getSeconds(),
       ].map(twoDigitString)
-      await this.#proxyService.post(`[時報] ${now.getFullYear()} 年 ${month} 月 ${date} 日 ${hour} 時 ${minute} 分 ${second} 秒です (代理)`)
+      await this.#outboundQueueService.post(`[時報] ${now.getFullYear()} 年 ${month} 月 ${date} 日 ${hour} 時 ${minute} 分 ${second} 秒です (代理)`, 'high')
     }
   }
 
   constructor(
-    proxyService: KoukokuProxyService,
+    outboundQueueService: OutboundQueueService,
     schedulerService: PeriodicSchedulerService,
     telnetService: TelnetClientService
   ) {
-    this.#proxyService = proxyService
+    this.#outboundQueueService = outboundQueueService
     this.#scheduleId = schedulerService.register(this.#minutely.bind(this), { minutes: [1] })
     this.#schedulerService = schedulerService
     telnetService.on('message', this.#message.bind(this))
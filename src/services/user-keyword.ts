@@ -8,7 +8,7 @@ import type {
 import {
   DatabaseService,
   Injectable,
-  KoukokuProxyService,
+  OutboundQueueService,
   SpeechService,
   compileIgnorePattern,
   isIgnorePattern,
@@ -25,16 +25,15 @@ interface IgnorePatterns {
 @Injectable({
   DependsOn: [
     DatabaseService,
-    KoukokuProxyService,
+    OutboundQueueService,
     SpeechService,
   ]
 })
 export class UserKeywordService implements CommandService {
   readonly #db: DatabaseService
   readonly #ignorePatterns = [] as IgnorePattern[]
-  readonly #key: string
   readonly #keywords = new Set<string>()
-  readonly #proxyService: KoukokuProxyService
+  readonly #outboundQueueService: OutboundQueueService
   readonly #regexp = /^キーワード(?<command>一覧|登録|解除)?(\s(?<name>(--help|[\p{scx=Hiragana}\p{scx=Katakana}\p{scx=Han}\w]{1,8})))?(\s(?<value>[\p{scx=Common}\p{scx=Hiragana}\p{scx=Katakana}\p{scx=Han}\s\w\x21-\x2f\x3a-\x40\x5b-\x60\x7b-\x7e]+))?$/iu
   readonly #speechService: SpeechService
 
@@ -61,7 +60,7 @@ export class UserKeywordService implements CommandService {
       const speech = await this.#speechService.create(list.join('\n'), 7, false)
       if (isKoukokuProxyPutResponse(speech)) {
         const { expiresAt, url } = speech
-        await this.#proxyService.post(`[Bot] キーワード${command}を${url}に置きました, 期限:${expiresAt}`)
+        await this.#outboundQueueService.post(`[Bot] キーワード${command}を${url}に置きました, 期限:${expiresAt}`)
       }
     }
   }
@@ -73,12 +72,12 @@ export class UserKeywordService implements CommandService {
   async #listUserKeywords(matched: RegExpMatchArray): Promise<void> {
     const { command, name, value } = matched.groups
     if (name || value)
-      await this.#proxyService.post(`[Bot] キーワード${command}の構文が正しくありません`)
+      await this.#outboundQueueService.post(`[Bot] キーワード${command}の構文が正しくありません`)
     else {
-      const keywords = createMap(await this.#db.hGetAll(this.#key))
+      const keywords = createMap(await this.#db.keywords())
       await (
         keywords.size === 0
-          ? this.#proxyService.post('[Bot] キーワードは登録されていません')
+          ? this.#outboundQueueService.post('[Bot] キーワードは登録されていません')
           : this.#createSpeech(command, keywords)
       )
     }
@@ -92,34 +91,33 @@ export class UserKeywordService implements CommandService {
   }
 
   async #loadKeywords(): Promise<void> {
-    const keywords = await this.#db.hKeys(this.#key)
+    const keywords = Object.keys(await this.#db.keywords())
     keywords.forEach(this.#keywords.add.bind(this.#keywords))
   }
 
   async #registerUserKeyword(matched: RegExpMatchArray): Promise<void> {
     const { command, name, value } = matched.groups
-    const text = '[Bot] キーワード' + ((name && value) ? (` "${name}" ` + ['は既に登録されています', 'を登録しました'][+(await this.#db.hSetNX(this.#key, name, value))]) : `${command}の構文が正しくありません`)
+    const text = '[Bot] キーワード' + ((name && value) ? (` "${name}" ` + ['は既に登録されています', 'を登録しました'][+(await this.#db.registerKeyword(name, value))]) : `${command}の構文が正しくありません`)
     if (text.endsWith('を登録しました'))
       this.#keywords.add(name)
-    await this.#proxyService.post(text)
+    await this.#outboundQueueService.post(text)
   }
 
   async #unregisterUserKeyword(matched: RegExpMatchArray): Promise<void> {
     const { command, name, value } = matched.groups
-    const text = '[Bot] キーワード' + ((name && !value) ? (` "${name}" ` + ['は未登録です', 'を登録解除しました'][+(await this.#db.hDel(this.#key, name))]) : `${command}の構文が正しくありません`)
+    const text = '[Bot] キーワード' + ((name && !value) ? (` "${name}" ` + ['は未登録です', 'を登録解除しました'][+(await this.#db.deleteKeyword(name))]) : `${command}の構文が正しくありません`)
     if (text.endsWith('を登録解除しました'))
       this.#keywords.delete(name)
-    await this.#proxyService.post(text)
+    await this.#outboundQueueService.post(text)
   }
 
   constructor(
     db: DatabaseService,
-    proxyService: KoukokuProxyService,
+    outboundQueueService: OutboundQueueService,
     speechService: SpeechService
   ) {
     this.#db = db
-    this.#key = process.env.REDIS_USERKEYWORD_KEY ?? 'koukoku:keywords'
-    this.#proxyService = proxyService
+    this.#outboundQueueService = outboundQueueService
     this.#speechService = speechService
   }
 
@@ -159,8 +157,8 @@ export class UserKeywordService implements CommandService {
     if (!shouldBeIgnored(log, this.#ignorePatterns)) {
       const keywords = [...this.#keywords].filter((keyword: string) => log.body.includes(keyword))
       if (keywords.length)
-        for (const value of await this.#db.hmGet(this.#key, ...keywords))
-          await this.#proxyService.post(`[Bot] ${value}`)
+        for (const value of await this.#db.findKeywords(...keywords))
+          await this.#outboundQueueService.post(`[Bot] ${value}`)
     }
   }
 
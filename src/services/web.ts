@@ -1,21 +1,36 @@
 import type {
   Action,
   AsyncAction,
+  DryRunCapture,
   Log,
+  LogFilter,
+  LogRecordPage,
+  LogType,
+  Notice,
   RedisStreamItem,
   Service,
   Speech,
+  TelnetConnectionStatus,
+  TimeRange,
+  WordFrequencyReport,
 } from '..'
 
 import {
+  DeliveryTrackerService,
   DependencyResolver,
   Injectable,
-  KoukokuProxyService,
+  LogExchange,
   LogService,
+  OutboundQueueService,
+  OutboxService,
   PromiseList,
+  TallyService,
+  TelnetClientService,
   applyEnvironmentVariables,
   describeKoukokuProxyResponse,
+  interpretAsDateOr,
   parseIntOr,
+  passThrough,
   suppress,
 } from '..'
 
@@ -29,24 +44,44 @@ import { readFile, readdir } from 'fs/promises'
 
 @Injectable({
   DependsOn: [
+    DeliveryTrackerService,
     LogService,
-    KoukokuProxyService,
+    OutboundQueueService,
+    OutboxService,
+    TallyService,
+    TelnetClientService,
     DependencyResolver,
   ]
 })
 export class WebService implements Service {
   readonly #assets = new Map<string, Buffer>()
   readonly #clients = new Set<WebSocketClient>()
+  readonly #deliveryTrackerService: DeliveryTrackerService
   readonly #host: string
   readonly #logService: LogService
+  readonly #maxApiSpan: number
+  readonly #maxMessages: number
   readonly #messages = new Array<string>()
+  readonly #outboundQueueService: OutboundQueueService
   readonly #pending = new WeakMap<WebSocketClient, WebSocketItem[]>()
-  readonly #proxyService: KoukokuProxyService
   readonly #server: Http2SecureServer
+  readonly #tallyService: TallyService
+  readonly #telnetClientService: TelnetClientService
   readonly #webSocket: WebSocketServer
 
+  async #acceptCaptured(capture: DryRunCapture): Promise<void> {
+    const { payload } = capture
+    this.#pushMessage(`dry-run: ${payload.kind === 'say' ? payload.text : payload.content}`)
+    await this.#send(capture)
+  }
+
+  async #acceptTelnetStatus(status: TelnetConnectionStatus): Promise<void> {
+    const { reason, state } = status
+    this.#pushMessage(`telnet: ${[state, reason].filter(passThrough).join(', ')}`)
+  }
+
   #acceptWebSocket(client: WebSocketClient): void {
-    this.#messages.push(`connected from ${client.url}`)
+    this.#pushMessage(`connected from ${client.url}`)
     client.on('error', this.#acceptWebSocketError.bind(this))
     client.on('close', this.#acceptWebSocketClose.bind(this, client))
     client.on('message', this.#acceptWebSocketMessage.bind(this))
@@ -58,28 +93,28 @@ export class WebService implements Service {
   }
 
   #acceptWebSocketClose(client: WebSocketClient, code: number, reason: Buffer): void {
-    this.#messages.push(`closed: ${code.toString(16)}, reason: 「'${reason.toString()}」`)
+    this.#pushMessage(`closed: ${code.toString(16)}, reason: 「'${reason.toString()}」`)
     this.#clients.delete(client)
   }
 
   #acceptWebSocketError(error: Error): void {
-    this.#messages.push(`error: ${error.message}`)
+    this.#pushMessage(`error: ${error.message}`)
   }
 
   #acceptWebSocketMessage(data: RawData, isBinary: boolean): void {
-    this.#messages.push(`data: ${isBinary ? data.slice(0) : data.toString()}`)
+    this.#pushMessage(`data: ${isBinary ? data.slice(0) : data.toString()}`)
   }
 
   #acceptWebSocketOpen(): void {
-    this.#messages.push('open')
+    this.#pushMessage('open')
   }
 
   #acceptWebSocketPing(data: Buffer): void {
-    this.#messages.push(`ping: ${data.toString()}`)
+    this.#pushMessage(`ping: ${data.toString()}`)
   }
 
   #acceptWebSocketUpgrade(req: IncomingMessage): void {
-    this.#messages.push(`upgrade: ${req.method} for ${req.url}`)
+    this.#pushMessage(`upgrade: ${req.method} for ${req.url}`)
   }
 
   #enqueuePending(client: WebSocketClient, ...data: WebSocketItem[]): void {
@@ -106,6 +141,7 @@ export class WebService implements Service {
   async #handleGetRequest(request: IncomingMessage, response: ServerResponse): Promise<void> {
     const routes = {
       '': this.#respondRoot.bind(this, request, response),
+      'api': this.#respondApi.bind(this, request, response),
       'health': this.#respondHealth.bind(this, request, response),
       'status': this.#respondStatus.bind(this, request, response),
     } as Record<string, AsyncAction>
@@ -147,7 +183,7 @@ export class WebService implements Service {
       if (json?.token === process.env.PROXY_TOKEN) {
         const data = Buffer.from(
           describeKoukokuProxyResponse(
-            await this.#proxyService.post(json?.msg)
+            await this.#outboundQueueService.post(json?.msg)
           )
         )
         response.statusCode = 202
@@ -189,6 +225,53 @@ export class WebService implements Service {
     }
   }
 
+  #pushMessage(message: string): void {
+    this.#messages.push(message)
+    this.#messages.splice(0, this.#messages.length - this.#maxMessages)
+  }
+
+  async #send(data: WebSocketItem): Promise<void> {
+    const ctx = {} as { data?: Buffer }
+    await using list = new PromiseList()
+    for (const client of this.#clients)
+      if (client.readyState === WebSocketClient.OPEN) {
+        ctx.data ??= Buffer.from(JSON.stringify(data))
+        const job = new Promise(
+          (resolve: Action<Error | undefined>) => client.send(ctx.data, resolve)
+        )
+        list.push(job)
+      }
+      else
+        this.#enqueuePending(client, data)
+  }
+
+  /**
+   * Builds the range of an API from `since` and `until`, which are interpreted in the same way as the commands do,
+   * or returns `undefined` if it is longer than `API_MAX_DAYS`, so that a request cannot make the bot scan the whole history.
+   * The range ends now unless `until` is given, and begins `API_MAX_DAYS` before its end unless `since` is given.
+   */
+  #rangeOf(params: URLSearchParams): TimeRange | undefined {
+    const max = interpretAsDateOr(params.get('until') ?? undefined, Date.now())
+    const min = interpretAsDateOr(params.get('since') ?? undefined, max - this.#maxApiSpan)
+    if (max - min <= this.#maxApiSpan)
+      return { max, min }
+  }
+
+  async #respondApi(request: IncomingMessage, response: ServerResponse): Promise<void> {
+    const url = new URL(request.url, `https://${this.#host}`)
+    const apis = {
+      logs: this.#respondLogs.bind(this, url.searchParams),
+      words: this.#respondWords.bind(this, url.searchParams),
+    } as Record<string, (() => Promise<unknown>)>
+    const name = url.pathname.split('/').at(2)
+    if (name in apis) {
+      const value = await apis[name]()
+      value === undefined ? response.statusCode = 400 : this.#respondJSON(request, response, value)
+    }
+    else
+      response.statusCode = 404
+  }
+
   async #respondAssetFile(request: IncomingMessage, response: ServerResponse): Promise<void> {
     const { url } = request
     await this.#respondAssetFileForUrl(url, response)
@@ -226,13 +309,8 @@ export class WebService implements Service {
     response.write('pong\n')
   }
 
-  async #respondRoot(_request: IncomingMessage, response: ServerResponse): Promise<void> {
-    await this.#respondAssetFileForUrl('/main.html', response)
-  }
-
-  async #respondStatus(request: IncomingMessage, response: ServerResponse): Promise<void> {
-    const status = { messages: this.#messages }
-    const json = JSON.stringify(status, undefined, 2)
+  #respondJSON(request: IncomingMessage, response: ServerResponse, value: unknown): void {
+    const json = JSON.stringify(value, undefined, 2)
     const resource = Buffer.from(json)
     response.setHeader('Content-Type', 'application/json')
     response.setHeader('Content-Length', resource.byteLength)
@@ -240,14 +318,54 @@ export class WebService implements Service {
       response.write(resource)
   }
 
+  async #respondLogs(params: URLSearchParams): Promise<LogRecordPage | undefined> {
+    const text = params.get('cursor')
+    const cursor = text === null ? undefined : LogExchange.decodeCursor(text)
+    const count = Math.max(Math.min(parseIntOr(params.get('limit'), 100), 1000), 1)
+    const range = this.#rangeOf(params)
+    if (range && (text === null || cursor))
+      return await this.#logService.records(range, filterOf(params), count, cursor)
+  }
+
+  async #respondRoot(_request: IncomingMessage, response: ServerResponse): Promise<void> {
+    await this.#respondAssetFileForUrl('/main.html', response)
+  }
+
+  async #respondStatus(request: IncomingMessage, response: ServerResponse): Promise<void> {
+    const status = {
+      delivery: this.#deliveryTrackerService.stats,
+      messages: this.#messages,
+      telnet: this.#telnetClientService.status,
+    }
+    this.#respondJSON(request, response, status)
+  }
+
+  async #respondWords(params: URLSearchParams): Promise<WordFrequencyReport | undefined> {
+    const range = this.#rangeOf(params)
+    if (range)
+      return await this.#tallyService.wordFrequencies(range, Math.min(parseIntOr(params.get('top'), 20), 100))
+  }
+
   constructor(
+    deliveryTrackerService: DeliveryTrackerService,
     logService: LogService,
-    proxyService: KoukokuProxyService,
+    outboundQueueService: OutboundQueueService,
+    outboxService: OutboxService,
+    tallyService: TallyService,
+    telnetClientService: TelnetClientService,
     resolver: DependencyResolver
   ) {
+    this.#deliveryTrackerService = deliveryTrackerService
     this.#host = process.env.HOST ?? 'localhost'
     this.#logService = logService
-    this.#proxyService = proxyService
+    this.#maxApiSpan = parseIntOr(process.env.API_MAX_DAYS, 7) * 86400000
+    this.#maxMessages = parseIntOr(process.env.WEB_MAX_MESSAGES, 100)
+    this.#outboundQueueService = outboundQueueService
+    this.#tallyService = tallyService
+    this.#telnetClientService = telnetClientService
+    outboxService.on('captured', this.#acceptCaptured.bind(this))
+    for (const state of ['connected', 'connecting', 'disconnected'] as const)
+      telnetClientService.on(state, this.#acceptTelnetStatus.bind(this))
     const cert = resolver.argument<Buffer | NodeJS.ErrnoException>(0)
     const key = resolver.argument<Buffer | NodeJS.ErrnoException>(1)
     const opts = { allowHTTP1: true } as SecureServerOptions
@@ -263,21 +381,9 @@ export class WebService implements Service {
     this.#webSocket.on('connection', this.#acceptWebSocket.bind(this))
   }
 
-  async broadcast(item: RedisStreamItem<Log> | RedisStreamItem<Speech>, timestamp: number): Promise<void> {
-    if (item) {
-      const ctx = {} as { data?: Buffer }
-      await using list = new PromiseList()
-      for (const client of this.#clients)
-        if (client.readyState === WebSocketClient.OPEN) {
-          ctx.data ??= Buffer.from(JSON.stringify({ item, timestamp }))
-          const job = new Promise(
-            (resolve: Action<Error | undefined>) => client.send(ctx.data, resolve)
-          )
-          list.push(job)
-        }
-        else
-          this.#enqueuePending(client, { item, timestamp })
-    }
+  async broadcast(item: RedisStreamItem<Log> | RedisStreamItem<Notice> | RedisStreamItem<Speech>, timestamp: number): Promise<void> {
+    if (item)
+      await this.#send({ item, timestamp })
   }
 
   async start(): Promise<void> {
@@ -293,11 +399,23 @@ export class WebService implements Service {
   }
 }
 
-interface WebSocketItem {
-  item: RedisStreamItem<Log> | RedisStreamItem<Speech>
+type WebSocketItem = DryRunCapture | {
+  item: RedisStreamItem<Log> | RedisStreamItem<Notice> | RedisStreamItem<Speech>
   timestamp: number
 }
 
+/**
+ * Builds the filter of `GET /api/logs` from `host`, `text` and `type`, where `type` may be given repeatedly.
+ */
+const filterOf = (params: URLSearchParams): LogFilter => {
+  const types = params.getAll('type') as LogType[]
+  return {
+    host: params.get('host') ?? undefined,
+    text: params.get('text') ?? undefined,
+    types: types.length ? types : undefined,
+  }
+}
+
 const readRequestAsJSON = <T>(source: EventEmitter): Promise<T> => {
   const list = [] as Buffer[]
   source.on('data', list.push.bind(list))
@@ -0,0 +1,155 @@
+import type {
+  Action,
+  KoukokuProxyError,
+  KoukokuProxyPutResponse,
+  KoukokuProxyResult,
+} from '..'
+
+import type {
+  FakeKoukokuServer,
+} from '.'
+
+import {
+  IncomingMessage,
+  ServerResponse,
+} from 'http'
+
+import {
+  Server,
+  ServerOptions,
+  createServer,
+} from 'https'
+
+import { AddressInfo } from 'net'
+import { EventEmitter } from 'events'
+import { createHash } from 'crypto'
+
+export interface FakeKoukokuProxyOptions extends ServerOptions {
+  host?: string
+  server?: FakeKoukokuServer
+  token?: string
+}
+
+export interface FakeKoukokuProxyRequest {
+  content: string
+  maxLength?: number
+  path: '/ping' | '/say' | '/speech'
+  remark?: boolean
+  timestamp: number
+}
+
+export class FakeKoukokuProxy implements AsyncDisposable {
+  readonly #eventEmitter = new EventEmitter()
+  readonly #host: string
+  readonly #koukoku?: FakeKoukokuServer
+  readonly #server: Server
+  readonly #token?: string
+  readonly requests = [] as FakeKoukokuProxyRequest[]
+
+  async #handle(request: IncomingMessage, response: ServerResponse): Promise<void> {
+    const handlers = {
+      '/ping': this.#ping,
+      '/say': this.#say,
+      '/speech': this.#speech,
+    } as Record<string, (_content: string, _timestamp: number) => Promise<object>>
+    const handler = handlers[request.url]
+    const authorized = this.#token === undefined || request.url === '/ping' || request.headers.authorization === `TOKEN ${this.#token}`
+    const index = 2 * +(request.method === 'POST' && handler !== undefined) + +authorized
+    const value = await [
+      reject(404, 'not found'),
+      reject(404, 'not found'),
+      reject(401, 'unauthorized'),
+      async () => [200, await handler.call(this, await readBody(request), Date.now())] as [number, object],
+    ][index]()
+    const data = Buffer.from(JSON.stringify(value[1]))
+    response.statusCode = value[0]
+    response.setHeader('Content-Length', data.byteLength)
+    response.setHeader('Content-Type', 'application/json')
+    response.end(data)
+  }
+
+  async #ping(content: string, timestamp: number): Promise<KoukokuProxyResult> {
+    this.#record({ content, path: '/ping', timestamp })
+    return { result: true }
+  }
+
+  #record(request: FakeKoukokuProxyRequest): void {
+    this.requests.push(request)
+    this.#eventEmitter.emit(request.path.slice(1), request)
+  }
+
+  async #say(content: string, timestamp: number): Promise<KoukokuProxyResult> {
+    this.#record({ content, path: '/say', timestamp })
+    await this.#koukoku?.chat({ body: content, host: this.#host }, { date: new Date(timestamp), self: true })
+    return { result: true }
+  }
+
+  async #speech(json: string, timestamp: number): Promise<KoukokuProxyPutResponse> {
+    const { content, maxLength, remark } = JSON.parse(json) as { content: string, maxLength: number, remark: boolean }
+    this.#record({ content, maxLength, path: '/speech', remark, timestamp })
+    queueMicrotask(() => this.#koukoku?.speech(content, { date: new Date(timestamp), host: this.#host }))
+    const checksum = createHash('sha256').update(content).digest().toString('hex')
+    const name = `${timestamp.toString(16)}.txt`
+    return {
+      byteLength: Buffer.byteLength(content),
+      checksum,
+      etag: checksum.slice(0, 32),
+      expiresAt: new Date(timestamp + maxLength * 864e5).toISOString(),
+      name,
+      result: {},
+      url: `https://${this.#host}/${name}`,
+    }
+  }
+
+  constructor(opts: FakeKoukokuProxyOptions) {
+    this.#host = opts.host ?? 'localhost'
+    this.#koukoku = opts.server
+    this.#server = createServer(opts, this.#handle.bind(this))
+    this.#token = opts.token
+  }
+
+  listen(port: number = 0, host: string = '127.0.0.1'): Promise<number> {
+    return new Promise(
+      (resolve: Action<number>) => this.#server.listen(
+        port,
+        host,
+        () => resolve((this.#server.address() as AddressInfo).port)
+      )
+    )
+  }
+
+  on(eventName: 'ping' | 'say' | 'speech', listener: Action<FakeKoukokuProxyRequest>): this {
+    this.#eventEmitter.on(eventName, listener)
+    return this
+  }
+
+  /**
+   * Waits for a request to `/say` or `/speech` whose content satisfies the predicate.
+   * Resolves with `undefined` if nothing matched within `timeout` milliseconds.
+   */
+  waitFor(eventName: 'say' | 'speech', predicate: (_content: string) => boolean, timeout: number = 5000): Promise<FakeKoukokuProxyRequest | undefined> {
+    return new Promise(
+      (resolve: Action<FakeKoukokuProxyRequest | undefined>) => {
+        const listener = (request: FakeKoukokuProxyRequest) => predicate(request.content) && (clearTimeout(timer), this.#eventEmitter.off(eventName, listener), resolve(request))
+        const timer = setTimeout(() => (this.#eventEmitter.off(eventName, listener), resolve(undefined)), timeout)
+        this.#eventEmitter.on(eventName, listener)
+      }
+    )
+  }
+
+  async [Symbol.asyncDispose](): Promise<void> {
+    this.#eventEmitter.removeAllListeners()
+    this.#server.closeAllConnections()
+    await new Promise((resolve: Action<Error | undefined>) => this.#server.close(resolve))
+  }
+}
+
+const readBody = (request: IncomingMessage): Promise<string> => {
+  const list = [] as Buffer[]
+  request.on('data', list.push.bind(list))
+  return new Promise(
+    (resolve: Action<string>) => request.on('end', () => resolve(Buffer.concat(list).toString()))
+  )
+}
+
+const reject = (statusCode: number, message: string) => async (): Promise<[number, KoukokuProxyError]> => [statusCode, { error: { message } }]
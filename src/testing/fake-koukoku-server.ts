@@ -0,0 +1,211 @@
+import type {
+  Action,
+  DayOfWeek,
+  Log,
+} from '..'
+
+import {
+  passThrough,
+  replayTelnetRecording,
+  twoDigitString,
+} from '..'
+
+import {
+  Server,
+  TLSSocket,
+  TlsOptions,
+  createServer,
+} from 'tls'
+
+import { AddressInfo } from 'net'
+import { EventEmitter } from 'events'
+
+export interface FakeChatOptions {
+  date?: Date
+  self?: boolean
+}
+
+export interface FakeKoukokuServerOptions extends TlsOptions {
+  packetInterval?: number
+  packetSize?: number
+}
+
+export interface FakeSpeechOptions {
+  date?: Date
+  host?: string
+}
+
+export class FakeKoukokuServer implements AsyncDisposable {
+  readonly #clients = new Set<TLSSocket>()
+  readonly #eventEmitter = new EventEmitter()
+  readonly #loggedIn = new WeakSet<TLSSocket>()
+  readonly #packetInterval: number
+  readonly #packetSize: number
+  readonly #server: Server
+
+  #accept(client: TLSSocket): void {
+    const received = [] as Buffer[]
+    client.on('close', this.#clients.delete.bind(this.#clients, client))
+    client.on('data', this.#acceptData.bind(this, client, received))
+    client.on('error', (error: Error) => this.#eventEmitter.emit('error', error))
+    this.#clients.add(client)
+    client.write('\r\nkoukoku.shadan.open.ad.jp (fake)\r\n\r\nlogin: ')
+  }
+
+  #acceptData(client: TLSSocket, received: Buffer[], data: Buffer): void {
+    received.push(data)
+    const text = Buffer.concat(received.splice(0)).toString()
+    const lines = text.split('\r\n')
+    const rest = lines.pop()
+    if (rest.length)
+      received.push(Buffer.from(rest))
+    for (const line of lines)
+      this.#acceptLine(client, line)
+  }
+
+  #acceptLine(client: TLSSocket, line: string): void {
+    if (this.#loggedIn.has(client))
+      this.chat({ body: line, host: client.remoteAddress }, { self: true })
+    this.#loggedIn.add(client)
+    this.#eventEmitter.emit('line', line, client)
+  }
+
+  async #writeInPackets(client: TLSSocket, data: Buffer): Promise<void> {
+    for (let offset = 0; offset < data.byteLength; offset += this.#packetSize) {
+      await writeAsync(client, data.subarray(offset, offset + this.#packetSize))
+      await sleep(this.#packetInterval)
+    }
+  }
+
+  constructor(opts: FakeKoukokuServerOptions) {
+    this.#packetInterval = opts.packetInterval ?? 10
+    this.#packetSize = Math.min(opts.packetSize ?? 64, 69)
+    this.#server = createServer(opts, this.#accept.bind(this))
+  }
+
+  get clientCount(): number {
+    return this.#clients.size
+  }
+
+  /**
+   * Broadcasts a chat line to all clients.
+   * Pass `self` to mark the line as if it was posted by the clients themselves.
+   */
+  async chat(log: Partial<Log> & { body: string }, opts: FakeChatOptions = {}): Promise<void> {
+    const self = opts.self ? '〈＊あなた様＊〉' : undefined
+    const text = composeLog({ ...log, self }, opts.date ?? new Date())
+    await this.write(`\x07\r\n${text}\r\n`)
+  }
+
+  listen(port: number = 0, host: string = '127.0.0.1'): Promise<number> {
+    return new Promise(
+      (resolve: Action<number>) => this.#server.listen(
+        port,
+        host,
+        () => resolve((this.#server.address() as AddressInfo).port)
+      )
+    )
+  }
+
+  on(_eventName: 'error', _listener: Action<Error>): this
+  on(_eventName: 'line', _listener: (_line: string, _client: TLSSocket) => void): this
+  on(eventName: 'error' | 'line', listener: Action<Error> | ((_line: string, _client: TLSSocket) => void)): this {
+    this.#eventEmitter.on(eventName, listener)
+    return this
+  }
+
+  /**
+   * Broadcasts the chunks recorded with `TELNET_RECORD_PATH` exactly as they were received.
+   */
+  async replay(path: string, speed: number = 1): Promise<void> {
+    for await (const { value } of replayTelnetRecording(path, speed))
+      await this.write(value)
+  }
+
+  /**
+   * Broadcasts a speech to all clients, split into packets shorter than 70 bytes like the real server does.
+   */
+  async speech(body: string, opts: FakeSpeechOptions = {}): Promise<void> {
+    const data = Buffer.from(composeSpeech(body, opts.host ?? 'localhost', opts.date ?? new Date()))
+    await Promise.all([...this.#clients].map((client: TLSSocket) => this.#writeInPackets(client, data)))
+  }
+
+  /**
+   * Waits for a line typed by a client after its login, i.e. a chat posted over the telnet session.
+   * Resolves with `undefined` if nothing matched within `timeout` milliseconds.
+   */
+  waitForLine(predicate: (_line: string) => boolean, timeout: number = 5000): Promise<string | undefined> {
+    return new Promise(
+      (resolve: Action<string | undefined>) => {
+        const listener = (line: string) => predicate(line) && (clearTimeout(timer), this.#eventEmitter.off('line', listener), resolve(line))
+        const timer = setTimeout(() => (this.#eventEmitter.off('line', listener), resolve(undefined)), timeout)
+        this.#eventEmitter.on('line', listener)
+      }
+    )
+  }
+
+  waitForLogin(): Promise<TLSSocket> {
+    return new Promise(
+      (resolve: Action<TLSSocket>) => this.#eventEmitter.once('line', (_line: string, client: TLSSocket) => resolve(client))
+    )
+  }
+
+  async write(data: Buffer | string): Promise<void> {
+    await Promise.all([...this.#clients].map((client: TLSSocket) => writeAsync(client, data)))
+  }
+
+  async [Symbol.asyncDispose](): Promise<void> {
+    this.#clients.forEach((client: TLSSocket) => client.destroy())
+    this.#clients.clear()
+    this.#eventEmitter.removeAllListeners()
+    await new Promise((resolve: Action<Error | undefined>) => this.#server.close(resolve))
+  }
+}
+
+const composeLog = (log: Partial<Log> & { body: string }, date: Date): string => {
+  const { body, forgery, host, self } = log
+  return [
+    '>> 「',
+    body,
+    '」(チャット放話 -',
+    [date.getMonth() + 1, date.getDate()].map(twoDigitString).join('/'),
+    `(${daysOfWeek[date.getDay()]})`,
+    [date.getHours(), date.getMinutes(), date.getSeconds()].map(twoDigitString).join(':'),
+    'by',
+    host ?? 'localhost',
+    ...[forgery].filter(passThrough).map((text: string) => `(${text})`),
+    ['君', self].filter(passThrough).join(' ') + ')',
+    '<<',
+  ].join(' ')
+}
+
+const composeSpeech = (body: string, host: string, date: Date): string => {
+  const { era, year, month, day } = date.toLocaleDateString('ja-JP-u-ca-japanese', { day: 'numeric', era: 'long', month: 'long', year: 'numeric' }).match(eraDateRE).groups
+  const time = [date.getHours(), date.getMinutes()].map(twoDigitString).join(':')
+  return [
+    '',
+    '',
+    ` ★☆★☆ 臨時ニユース 緊急放送 ☆★☆★ ${era} ${year.replace('元', '1')} 年 ${month} 月 ${day} 日 ${daysOfWeek[date.getDay()]}曜 ${time}`,
+    ` ★ たった今、${host} 君より大演説がありました ★`,
+    '',
+    ' ＝＝＝ 大演説の開闢 ＝＝＝',
+    '',
+    ...body.split(/\r?\n/),
+    '',
+    ' ＝＝＝ 大演説の終焉 ＝＝＝',
+    '',
+    '',
+  ].join('\r\n')
+}
+
+const daysOfWeek: Readonly<DayOfWeek[]> = ['日', '月', '火', '水', '木', '金', '土'] as const
+
+const eraDateRE = /^(?<era>\p{scx=Han}+)(?<year>\d+|元)年(?<month>\d+)月(?<day>\d+)日$/u
+
+const sleep = (ms: number) => new Promise<void>(
+  (resolve: Action) => setTimeout(resolve, ms)
+)
+
+const writeAsync = (client: TLSSocket, data: Buffer | string) => new Promise(
+  (resolve: Action<Error | undefined>) => client.write(data, resolve)
+)
@@ -0,0 +1,3 @@
+export * from './fake-koukoku-proxy'
+export * from './fake-koukoku-server'
+export * from './scenario'
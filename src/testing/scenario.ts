@@ -0,0 +1,98 @@
+import type {
+  Action,
+} from '..'
+
+import type {
+  FakeKoukokuProxy,
+  FakeKoukokuServer,
+} from '.'
+
+export type FakeKoukokuScenarioStep = ChatStep | ExpectStep | RawStep | ReplayStep | SpeechStep | WaitStep
+
+export interface FakeKoukokuScenarioResult {
+  failures: ExpectStep[]
+  passed: number
+}
+
+interface ChatStep {
+  chat: string
+  forgery?: boolean
+  host?: string
+}
+
+interface ExpectStep {
+  expect: string
+  path?: 'say' | 'speech' | 'telnet'
+  timeout?: number
+}
+
+interface RawStep {
+  raw: string
+}
+
+interface ReplayStep {
+  replay: string
+  speed?: number
+}
+
+interface SpeechStep {
+  host?: string
+  speech: string
+}
+
+interface WaitStep {
+  wait: number
+}
+
+/**
+ * Parses a scenario written in JSON Lines, ignoring blank lines and lines starting with `#`.
+ */
+export const parseFakeKoukokuScenario = (text: string): FakeKoukokuScenarioStep[] => text.split(/\r?\n/).map(
+  (line: string) => line.trim()
+).filter(
+  (line: string) => line.length && !line.startsWith('#')
+).map(
+  (line: string) => JSON.parse(line) as FakeKoukokuScenarioStep
+)
+
+/**
+ * Plays the steps in order.
+ * An `expect` step waits until the bot posts a text matching its pattern through the fake proxy,
+ * or over the telnet session if its `path` is `telnet`.
+ */
+export const runFakeKoukokuScenario = async (server: FakeKoukokuServer, proxy: FakeKoukokuProxy, steps: FakeKoukokuScenarioStep[]): Promise<FakeKoukokuScenarioResult> => {
+  const result = { failures: [], passed: 0 } as FakeKoukokuScenarioResult
+  for (const step of steps) {
+    const pending = 'expect' in step ? expect(server, proxy, step) : undefined
+    await play(server, step)
+    const matched = await pending
+    if (matched === false)
+      result.failures.push(step as ExpectStep)
+    else if (matched)
+      result.passed++
+  }
+  return result
+}
+
+const expect = async (server: FakeKoukokuServer, proxy: FakeKoukokuProxy, step: ExpectStep): Promise<boolean> => {
+  const pattern = new RegExp(step.expect)
+  const predicate = pattern.test.bind(pattern)
+  const found = step.path === 'telnet'
+    ? await server.waitForLine(predicate, step.timeout)
+    : await proxy.waitFor(step.path ?? 'say', predicate, step.timeout)
+  console.log(`[scenario] ${found ? '\x1b[32mpassed' : '\x1b[31mfailed'}\x1b[m /${step.expect}/`)
+  return found !== undefined
+}
+
+const play = async (server: FakeKoukokuServer, step: FakeKoukokuScenarioStep): Promise<void> => {
+  const players = {
+    chat: (step: ChatStep) => server.chat({ body: step.chat, forgery: step.forgery ? '※ 贋作 DNS 逆引の疑い' : undefined, host: step.host }),
+    raw: (step: RawStep) => server.write(step.raw),
+    replay: (step: ReplayStep) => server.replay(step.replay, step.speed),
+    speech: (step: SpeechStep) => server.speech(step.speech, { host: step.host }),
+    wait: (step: WaitStep) => new Promise<void>((resolve: Action) => setTimeout(resolve, step.wait)),
+  } as Record<string, Action<FakeKoukokuScenarioStep, Promise<void>>>
+  for (const key in players)
+    if (key in step)
+      await players[key](step)
+}
@@ -0,0 +1,37 @@
+import {
+  FakeKoukokuProxy,
+  FakeKoukokuServer,
+  parseFakeKoukokuScenario,
+  runFakeKoukokuScenario,
+} from '../testing'
+
+import { parseIntOr } from '..'
+import { readFile } from 'fs/promises'
+
+const main = async () => {
+  const [cert, key] = await Promise.all(['fullchain', 'privkey'].map((name: string) => readFile(`certificates/${name}.pem`)))
+  const { FAKE_PROXY_PORT, FAKE_TELNET_PORT, PROXY_TOKEN } = process.env
+  await using server = new FakeKoukokuServer({ cert, key })
+  await using proxy = new FakeKoukokuProxy({ cert, key, server, token: PROXY_TOKEN })
+  const telnetPort = await server.listen(parseIntOr(FAKE_TELNET_PORT, 9920))
+  const proxyPort = await proxy.listen(parseIntOr(FAKE_PROXY_PORT, 9443))
+  console.log(`fake telnet server is listening on \x1b[33m${telnetPort}\x1b[m, fake proxy on \x1b[33m${proxyPort}\x1b[m`)
+  proxy.on('say', request => console.log(`[say] \x1b[32m${request.content}\x1b[m`))
+  proxy.on('speech', request => console.log(`[speech]\n\x1b[32m${request.content}\x1b[m`))
+  const [path] = process.argv.slice(2)
+  if (path) {
+    const steps = parseFakeKoukokuScenario((await readFile(path)).toString())
+    await server.waitForLogin()
+    const { failures, passed } = await runFakeKoukokuScenario(server, proxy, steps)
+    console.log(`${passed} passed, ${failures.length} failed`)
+    process.exitCode = +(0 < failures.length)
+  }
+  else
+    await new Promise<void>(
+      (resolve: () => void) => ['SIGINT', 'SIGTERM'].forEach((signal: string) => process.on(signal, resolve))
+    )
+}
+
+main().catch(
+  (error: unknown) => (console.error({ error }), process.exitCode = 1)
+)
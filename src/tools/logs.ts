@@ -0,0 +1,137 @@
+import {
+  DatabaseService,
+  LogArchiveService,
+  LogExchange,
+  LogReader,
+  PeriodicSchedulerService,
+} from '..'
+
+import type {
+  FilterFunction,
+  LogExchangeFormat,
+  LogOrSpeechWithTimestamp,
+  LogRecord,
+  LogType,
+} from '..'
+
+import { Readable } from 'stream'
+import { createWriteStream } from 'fs'
+import { parseArgs } from 'util'
+import { pipeline } from 'stream/promises'
+import { readFile } from 'fs/promises'
+
+type Options = ReturnType<typeof parseOptions>['values'] & { input?: string }
+
+/**
+ * Orders the records by their ids, which Redis accepts only in ascending order as `milliseconds-sequence`,
+ * where an id in any other form is taken as the record's timestamp.
+ */
+const ascendingByStreamId = (lhs: LogRecord, rhs: LogRecord): number => {
+  const [[lhsTime, lhsSequence], [rhsTime, rhsSequence]] = [lhs, rhs].map(streamIdOf)
+  return lhsTime - rhsTime || lhsSequence - rhsSequence
+}
+
+const ascendingByTimestamp = (lhs: LogRecord, rhs: LogRecord): number => lhs.timestamp - rhs.timestamp
+
+/**
+ * Writes the logs within the range in descending order of their timestamps, reading and writing them in batches.
+ */
+const exportLogs = async (db: DatabaseService, options: Options): Promise<void> => {
+  const reader = new LogReader(db, new LogArchiveService(db, new PeriodicSchedulerService()))
+  const { host, output, since, type, until } = options
+  const counter = { exported: 0 }
+  const batches = recordsOf(reader.batches(parseTime(until) ?? '+', parseTime(since) ?? '-'), LogExchange.matches({ host, types: type as LogType[] }), counter)
+  await pipeline(Readable.from(LogExchange.formatBatches(batches, formatOf(options))), output ? createWriteStream(output) : process.stdout)
+  console.error(`[logs] exported \x1b[33m${counter.exported}\x1b[m logs`)
+}
+
+const formatOf = (options: Options): LogExchangeFormat => (options.format ?? options.output ?? options.input)?.endsWith('csv') ? 'csv' : 'jsonl'
+
+const importLogs = async (db: DatabaseService, options: Options): Promise<void> => {
+  const data = await readFile(options.input)
+  const records = LogExchange.parse(data.toString(), formatOf(options)).sort(db.backend === 'redis' ? ascendingByStreamId : ascendingByTimestamp)
+  const counts = { imported: 0, skipped: 0 }
+  for (const record of records)
+    if (await isStored(db, record))
+      counts.skipped++
+    else {
+      await restore(db, record)
+      counts.imported++
+    }
+  console.error(`[logs] imported \x1b[33m${counts.imported}\x1b[m logs, skipped ${counts.skipped} already stored`)
+}
+
+const isStored = async (db: DatabaseService, record: LogRecord): Promise<boolean> => {
+  const { message, timestamp } = record
+  const stored = await db.queryLogs({ max: timestamp, min: timestamp })
+  return stored.some(
+    (value: LogOrSpeechWithTimestamp) => serialize(value.item.message) === serialize(message)
+  )
+}
+
+const main = async () => {
+  const { positionals, values } = parseOptions()
+  const [command, input] = positionals
+  const commands = {
+    export: exportLogs,
+    import: importLogs,
+  } as Record<string, (_db: DatabaseService, _options: Options) => Promise<void>>
+  const run = commands[command]
+  if (!run || (command === 'import' && !input))
+    throw new Error('usage: logs export [--format csv|jsonl] [--host name] [--output path] [--since time] [--type log|notice|speech]... [--until time]\n       logs import [--format csv|jsonl] <path>')
+  await using db = new DatabaseService()
+  await db.start()
+  await run(db, { ...values, input })
+}
+
+const parseOptions = () => parseArgs(
+  {
+    allowPositionals: true,
+    options: {
+      format: { type: 'string' },
+      host: { type: 'string' },
+      output: { type: 'string' },
+      since: { type: 'string' },
+      type: { multiple: true, type: 'string' },
+      until: { type: 'string' },
+    },
+  }
+)
+
+const parseTime = (text: string | undefined): number | undefined => {
+  if (text !== undefined) {
+    const time = /^\d+$/.test(text) ? Number(text) : new Date(text).getTime()
+    if (isNaN(time))
+      throw new Error(`invalid time, ${text}`)
+    return time
+  }
+}
+
+async function* recordsOf(batches: AsyncIterable<LogOrSpeechWithTimestamp[]>, filter: FilterFunction<LogRecord>, counter: { exported: number }) {
+  for await (const values of batches) {
+    const records = values.map(LogExchange.toRecord).filter(filter)
+    counter.exported += records.length
+    yield records
+  }
+}
+
+/**
+ * Restores the record with its original id if the storage accepts it, e.g. when it is newer than any stored one.
+ */
+const restore = async (db: DatabaseService, record: LogRecord): Promise<string> => {
+  const { id, message, timestamp } = record
+  return await db.appendLog(message, timestamp, id).catch(() => db.appendLog(message, timestamp))
+}
+
+const serialize = (message: Record<string, string>): string => JSON.stringify(Object.entries(message).sort())
+
+const streamIdOf = (record: LogRecord): [number, number] => {
+  const groups = record.id.match(streamIdRE)?.groups
+  return groups ? [Number(groups.time), Number(groups.sequence)] : [record.timestamp, 0]
+}
+
+const streamIdRE = /^(?<time>\d+)-(?<sequence>\d+)$/
+
+main().catch(
+  (error: unknown) => (console.error(error instanceof Error ? error.message : error), process.exitCode = 1)
+)
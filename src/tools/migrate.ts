@@ -0,0 +1,20 @@
+import {
+  DatabaseService,
+  Migrator,
+} from '..'
+
+const main = async () => {
+  const dryRun = process.argv.slice(2).includes('--dry-run')
+  await using db = new DatabaseService()
+  await db.connect()
+  const migrator = new Migrator(db)
+  const current = await migrator.currentVersion()
+  console.log(`[migrate] schema version \x1b[33m${current}\x1b[m, latest \x1b[33m${migrator.latestVersion}\x1b[m${['', ', dry run'][+dryRun]}`)
+  const results = await migrator.run(dryRun)
+  if (results.length === 0)
+    console.log('[migrate] nothing to do')
+}
+
+main().catch(
+  (error: unknown) => (console.error(error instanceof Error ? error.message : error), process.exitCode = 1)
+)
@@ -0,0 +1,32 @@
+import {
+  DatabaseService,
+  KoukokuProxyService,
+  OutboxService,
+  TelnetClientService,
+} from '..'
+
+import type {
+  OutboxEntry,
+} from '..'
+
+const main = async () => {
+  const [command, ...ids] = process.argv.slice(2)
+  await using db = new DatabaseService()
+  const outbox = new OutboxService(db, new KoukokuProxyService(), new TelnetClientService(db))
+  const commands = {
+    list: () => outbox.deadLetters(),
+    pending: () => outbox.pending(),
+    purge: async () => (await outbox.purge(), []),
+    replay: () => outbox.replay(...ids),
+  } as Record<string, () => Promise<OutboxEntry[]>>
+  const run = commands[command ?? 'list']
+  if (!run)
+    throw new Error('usage: outbox [list|pending|purge|replay [id...]]')
+  await db.start()
+  for (const entry of await run())
+    console.log(JSON.stringify(entry))
+}
+
+main().catch(
+  (error: unknown) => (console.error(error instanceof Error ? error.message : error), process.exitCode = 1)
+)
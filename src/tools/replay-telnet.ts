@@ -0,0 +1,30 @@
+import {
+  DatabaseService,
+  TelnetClientService,
+} from '..'
+
+import type {
+  Log,
+  Notice,
+  Speech,
+} from '..'
+
+const main = async () => {
+  const [path, speed] = process.argv.slice(2)
+  if (!path)
+    throw new Error('usage: replay-telnet <recording> [speed]')
+  await using telnet = new TelnetClientService(new DatabaseService())
+  const print = (eventName: string) => async (value: Log | Notice | Omit<Speech, 'hash'> | string, ...args: unknown[]) => {
+    const timestamp = args.at(-1)
+    console.log(JSON.stringify({ event: eventName, timestamp, value }))
+  }
+  telnet.on('message', print('message'))
+  telnet.on('notice', print('notice'))
+  telnet.on('speech', print('speech'))
+  telnet.on('unknown', print('unknown'))
+  await telnet.replay(path, Number(speed ?? 0))
+}
+
+main().catch(
+  (error: unknown) => (console.error(error instanceof Error ? error.message : error), process.exitCode = 1)
+)
@@ -1,8 +1,8 @@
-import type { Service } from '.'
+import type { Log, Service } from '.'
 import { isService } from '.'
 
 export interface CommandService extends Service {
-  execute(_matched: RegExpMatchArray, _rawMessage: string): Promise<void>
+  execute(_matched: RegExpMatchArray, _rawMessage: string, _log: Log): Promise<void>
   match(_message: string): RegExpMatchArray
 }
 
@@ -0,0 +1,21 @@
+export interface DeliveryRecord {
+  confirmedAt?: number
+  id: string
+  latency?: number
+  postedAt: number
+  state: DeliveryState
+  text: string
+}
+
+export type DeliveryState = 'confirmed' | 'failed' | 'pending'
+
+export interface DeliveryStats {
+  confirmed: number
+  failed: number
+  latency: {
+    average?: number
+    last?: number
+    maximum?: number
+  }
+  pending: number
+}
@@ -1,8 +1,15 @@
 export * from './action'
 export * from './command-service'
 export * from './deepl'
+export * from './delivery'
 export * from './ignore'
 export * from './koukoku-proxy'
 export * from './log'
+export * from './migration'
+export * from './outbound-queue'
+export * from './outbox'
 export * from './periodic-scheduler'
 export * from './service'
+export * from './storage'
+export * from './tally'
+export * from './telnet'
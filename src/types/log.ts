@@ -13,13 +13,55 @@ export interface Log extends Common {
   self?: '〈＊あなた様＊〉'
 }
 
+/**
+ * How the `ログ` command delivers its result, i.e. as chat lines, as a speech, or as an expiring URL of a speech.
+ */
+export type LogDeliveryMode = 'lines' | 'speech' | 'url'
+
 type LogKeyType = keyof Log
 
 export interface LogOrSpeechWithTimestamp {
-  item: RedisStreamItem<Log> | RedisStreamItem<Speech>
+  item: RedisStreamItem<Log> | RedisStreamItem<Notice> | RedisStreamItem<Speech>
+  timestamp: number
+}
+
+/**
+ * A page of the composed lines which the `ログ` command delivers, either at first or on `ログ 続き`.
+ */
+export interface LogPage {
+  items: string[]
+  mode: LogDeliveryMode
+  number: number
+  pages: number
+  subject: string
+  total: number
+}
+
+/**
+ * A stored log in the flat form used to export and import them.
+ */
+export interface LogRecord {
+  id: string
+  message: Log | Notice | Speech
   timestamp: number
+  type: LogType
 }
 
+export type LogType = 'log' | 'notice' | 'speech'
+
+/**
+ * A server-side system notice, i.e. a fragment of the telnet stream which is neither a chat message nor a speech.
+ */
+export interface Notice extends Record<string, string> {
+  body: string
+  kind: NoticeKind
+  users?: string
+}
+
+export type NoticeKind = 'announcement' | 'banner' | 'users'
+
+type NoticeKeyType = keyof Notice
+
 export interface RedisStreamItem<T extends Record<string, string>> {
   id: string
   message: T
@@ -33,6 +75,13 @@ export interface Speech extends Common {
 
 type SpeechKeyType = keyof Speech
 
+const botOrTimeSignalRE = /^\s*\[(Bot|時報)[\]@]/
+
+/**
+ * Whether the body of a chat line or a speech is posted by a bot or is a time signal, which are excluded from the statistics.
+ */
+export const isBotOrTimeSignal = (body: string) => botOrTimeSignalRE.test(body)
+
 const isRedisStreamItem = <T extends Record<string, string>>(value: unknown): value is RedisStreamItem<T> => {
   const item = value as RedisStreamItem<T>
   return typeof value === 'object' && typeof item.id === 'string' && typeof item.message === 'object'
@@ -45,11 +94,24 @@ export const isRedisStreamItemLog = (value: unknown): value is RedisStreamItem<L
 
 export const isRedisStreamItemLogOrSpeech = (value: unknown): value is RedisStreamItem<Log> | RedisStreamItem<Speech> => isRedisStreamItemLog(value) || isRedisStreamItemSpeech(value)
 
+export const isRedisStreamItemLogOrSpeechOrNotice = (value: unknown): value is RedisStreamItem<Log> | RedisStreamItem<Notice> | RedisStreamItem<Speech> => isRedisStreamItemLogOrSpeech(value) || isRedisStreamItemNotice(value)
+
+export const isRedisStreamItemNotice = (value: unknown): value is RedisStreamItem<Notice> => {
+  const item = value as RedisStreamItem<Notice>
+  return isRedisStreamItem(value) && noticeKeyTypes.every((key: NoticeKeyType) => typeof item.message[key] === 'string') && noticeKinds.includes(item.message.kind)
+}
+
 export const isRedisStreamItemSpeech = (value: unknown): value is RedisStreamItem<Speech> => {
   const item = value as RedisStreamItem<Speech>
   return isRedisStreamItem(value) && speechKeyTypes.every((key: SpeechKeyType) => typeof item.message[key] === 'string')
 }
 
+export const logDeliveryModes: Readonly<LogDeliveryMode[]> = [
+  'lines',
+  'speech',
+  'url',
+] as const
+
 const logKeyTypes: Readonly<LogKeyType[]> = [
   'body',
   'date',
@@ -58,6 +120,23 @@ const logKeyTypes: Readonly<LogKeyType[]> = [
   'time',
 ]
 
+export const logTypes: Readonly<LogType[]> = [
+  'log',
+  'notice',
+  'speech',
+] as const
+
+const noticeKeyTypes: Readonly<NoticeKeyType[]> = [
+  'body',
+  'kind',
+] as const
+
+export const noticeKinds: Readonly<NoticeKind[]> = [
+  'announcement',
+  'banner',
+  'users',
+] as const
+
 export const recompose = (log: Log) => {
   const { body, date, dow, forgery, host, self, time } = log
   const prefix = '>> 「 ' + body + ' 」(チャット放話 - ' + date + ' (' + dow + ') ' + time + ' by ' + host
@@ -0,0 +1,19 @@
+import type {
+  LogOrSpeechWithTimestamp,
+} from '.'
+
+export interface Migration {
+  description: string
+  /**
+   * Migrates a log, where `startedAt` is when the run of the migrations was started, which is the same for all the logs.
+   */
+  migrate(_value: LogOrSpeechWithTimestamp, _startedAt: number): LogOrSpeechWithTimestamp | undefined
+  version: number
+}
+
+export interface MigrationResult {
+  changed: number
+  description: string
+  scanned: number
+  version: number
+}
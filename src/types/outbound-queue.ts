@@ -0,0 +1,7 @@
+export type OutboundPriority = 'high' | 'low' | 'normal'
+
+export const outboundPriorities: Readonly<OutboundPriority[]> = [
+  'high',
+  'normal',
+  'low',
+] as const
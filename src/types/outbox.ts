@@ -0,0 +1,45 @@
+export interface DryRunCapture {
+  payload: OutboxPayload
+  timestamp: number
+}
+
+export type DryRunSinkKind = 'console' | 'file' | 'web'
+
+export interface OutboxEntry {
+  attempts: number
+  createdAt: number
+  expiresAt: number
+  id: string
+  lastError?: string
+  payload: OutboxPayload
+}
+
+export type OutboxPayload = OutboxSayPayload | OutboxSpeechPayload
+
+export interface OutboxSayPayload {
+  kind: 'say'
+  text: string
+}
+
+export interface OutboxSpeechPayload {
+  content: string
+  kind: 'speech'
+  maxLength: number
+  remark: boolean
+}
+
+export const dryRunSinkKinds: Readonly<DryRunSinkKind[]> = [
+  'console',
+  'file',
+  'web',
+] as const
+
+export const isDryRunCapture = (value: unknown): value is DryRunCapture => {
+  const capture = value as DryRunCapture
+  return typeof value === 'object' && typeof capture.timestamp === 'number' && typeof capture.payload === 'object'
+}
+
+export const isOutboxEntry = (value: unknown): value is OutboxEntry => {
+  const entry = value as OutboxEntry
+  return typeof value === 'object' && typeof entry.id === 'string' && typeof entry.attempts === 'number' && typeof entry.expiresAt === 'number' && typeof entry.payload === 'object'
+}
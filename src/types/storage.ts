@@ -0,0 +1,59 @@
+import type {
+  Log,
+  LogOrSpeechWithTimestamp,
+  Notice,
+  OutboxEntry,
+  Speech,
+} from '.'
+
+/**
+ * Persists what the bot has to remember across restarts, in terms of its domain rather than of Redis.
+ */
+export interface Storage extends AsyncDisposable {
+  appendLog(_message: Log | Notice | Speech, _timestamp: number, _id?: string): Promise<string>
+  connect(): Promise<void>
+  deadLetters(): Promise<OutboxEntry[]>
+  deleteKeyword(_name: string): Promise<boolean>
+  findKeywords(..._names: string[]): Promise<string[]>
+  keywords(): Promise<Record<string, string>>
+  loadSession(): Promise<Buffer | undefined>
+  /**
+   * Returns the timestamp of the oldest log in the storage, or `undefined` if there is none.
+   */
+  oldestLogTimestamp(): Promise<number | undefined>
+  outboxEntries(): Promise<OutboxEntry[]>
+  purgeDeadLetters(): Promise<boolean>
+  pushDeadLetter(_entry: OutboxEntry): Promise<void>
+  putOutboxEntry(_entry: OutboxEntry): Promise<void>
+  /**
+   * Queries the logs within the range in descending order of their timestamps, and of their ids at the same timestamp.
+   * Only the first `count` of them in that order are read if it is given, whatever order they were stored in.
+   */
+  queryLogs(_range: TimeRange, _count?: number): Promise<LogOrSpeechWithTimestamp[]>
+  registerKeyword(_name: string, _value: string): Promise<boolean>
+  removeDeadLetter(_id: string): Promise<boolean>
+  removeLogs(_ids: string[]): Promise<number>
+  removeOutboxEntry(_id: string): Promise<boolean>
+  saveSession(_data: Buffer): Promise<void>
+  /**
+   * Reads the logs in the order they were stored without validating them, e.g. to migrate them.
+   * Only the first `count` of them are read if it is given.
+   */
+  scanLogs(_count?: number): Promise<LogOrSpeechWithTimestamp[]>
+  schemaVersion(): Promise<number | undefined>
+  setSchemaVersion(_version: number): Promise<void>
+  updateLogs(_values: LogOrSpeechWithTimestamp[]): Promise<void>
+}
+
+export type StorageBackend = 'memory' | 'redis' | 'sqlite'
+
+export interface TimeRange {
+  max: number | '+'
+  min: number | '-'
+}
+
+export const storageBackends: Readonly<StorageBackend[]> = [
+  'memory',
+  'redis',
+  'sqlite',
+] as const
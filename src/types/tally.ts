@@ -0,0 +1,16 @@
+import type {
+  TimeRange,
+} from '.'
+
+export interface WordFrequency {
+  count: number
+  word: string
+}
+
+/**
+ * The most frequent words in the chat lines within a range, which is reported by `集計 単語` and `GET /api/words`.
+ */
+export interface WordFrequencyReport extends TimeRange {
+  total: number
+  words: WordFrequency[]
+}
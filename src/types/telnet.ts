@@ -0,0 +1,24 @@
+export interface BufferWithTimestamp {
+  timestamp: number
+  value: Buffer
+}
+
+export type TelnetConnectionState = 'connected' | 'connecting' | 'disconnected'
+
+export interface TelnetConnectionStatus {
+  attempts: number
+  reason?: string
+  retryAt?: number
+  since: number
+  state: TelnetConnectionState
+}
+
+export interface TelnetRecord {
+  timestamp: number
+  value: string
+}
+
+export const isTelnetRecord = (value: unknown): value is TelnetRecord => {
+  const record = value as TelnetRecord
+  return typeof value === 'object' && value !== null && typeof record.timestamp === 'number' && typeof record.value === 'string'
+}